@@ -9,9 +9,12 @@ interface DeleteConfirmationModalProps {
   note: Note
   onConfirm: () => void
   onCancel: () => void
+  retentionDays?: number // Set when deleting moves the note to the trash instead of deleting it
 }
 
-export default function DeleteConfirmationModal({ note, onConfirm, onCancel }: DeleteConfirmationModalProps) {
+export default function DeleteConfirmationModal({ note, onConfirm, onCancel, retentionDays }: DeleteConfirmationModalProps) {
+  const movesToTrash = retentionDays !== undefined
+
   const [isDeleting, setIsDeleting] = useState(false)
   const [deleteResult, setDeleteResult] = useState<{
     success: boolean
@@ -65,8 +68,12 @@ export default function DeleteConfirmationModal({ note, onConfirm, onCancel }: D
               <>
                 <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
                 <div>
-                  <p className="text-green-300 font-medium">Note deleted successfully!</p>
-                  <p className="text-slate-400 text-xs mt-1">The note has been removed from Nostr relays and all devices</p>
+                  <p className="text-green-300 font-medium">{movesToTrash ? "Note moved to trash" : "Note deleted successfully!"}</p>
+                  <p className="text-slate-400 text-xs mt-1">
+                    {movesToTrash
+                      ? `You can restore it from the trash for ${retentionDays} days`
+                      : "The note has been removed from Nostr relays and all devices"}
+                  </p>
                   <p className="text-slate-500 text-xs mt-1">Click "✓ Close" to dismiss this message</p>
                 </div>
               </>
@@ -107,7 +114,15 @@ export default function DeleteConfirmationModal({ note, onConfirm, onCancel }: D
             )}
           </div>
 
-          {!deleteResult && (
+          {!deleteResult && movesToTrash && (
+            <div className="mt-4 p-3 bg-slate-900/50 border border-slate-600 rounded-lg">
+              <p className="text-xs text-slate-300">
+                The note will be moved to the trash and permanently deleted after {retentionDays} days.
+              </p>
+            </div>
+          )}
+
+          {!deleteResult && !movesToTrash && (
             <div className="mt-4 p-3 bg-red-900/20 border border-red-800 rounded-lg">
               <p className="text-xs text-red-300 mb-1">⚠️ This action cannot be undone</p>
               <p className="text-xs text-red-400">
@@ -135,7 +150,7 @@ export default function DeleteConfirmationModal({ note, onConfirm, onCancel }: D
               className="bg-red-600 hover:bg-red-500 disabled:opacity-50 flex items-center gap-2"
             >
               <Trash2 className="w-4 h-4" />
-              {isDeleting ? "Deleting..." : "Delete Note"}
+              {isDeleting ? "Deleting..." : movesToTrash ? "Move to Trash" : "Delete Note"}
             </Button>
           )}
         </div>
@@ -7,7 +7,11 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import type { Note } from "@/components/main-app"
+import MergeView from "@/components/merge-view"
+import type { JournalConflict, JournalVersion } from "@/lib/journal-conflicts"
 import { useDebounce } from "@/hooks/useDebounce"
+import { describeOkResult } from "@/lib/relay-ok"
+import { isLocalJournalVersion } from "@/lib/local-journal"
 import { Copy, ExternalLink, ShieldCheck, Lock, CheckCircle2, CheckCircle, AlertCircle, Loader2, Check, Save, Trash2, Upload, FileText, Download } from "lucide-react"
 
 interface EditorProps {
@@ -16,10 +20,25 @@ interface EditorProps {
   onPublishNote: (note: Note) => void
   onPublishHighlight: (note: Note, highlightedText: string) => void
   onDeleteNote: (note: Note) => void
+  conflict?: JournalConflict | null // Edit held back because another device saved this entry first
+  onResolveConflict?: (note: Note, conflict: JournalConflict, resolution: "remote" | JournalVersion) => Promise<void>
+  remoteNote?: Note | null // Newer version of this note published from another device
+  onApplyRemoteNote?: (note: Note) => void
   authData: any // AuthData type
 }
 
-export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHighlight, onDeleteNote, authData }: EditorProps) {
+export default function Editor({
+  note,
+  onUpdateNote,
+  onPublishNote,
+  onPublishHighlight,
+  onDeleteNote,
+  conflict,
+  onResolveConflict,
+  remoteNote,
+  onApplyRemoteNote,
+  authData,
+}: EditorProps) {
   const [title, setTitle] = useState("")
   const [content, setContent] = useState("")
   const [newTag, setNewTag] = useState("")
@@ -27,6 +46,7 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [copiedId, setCopiedId] = useState<string | null>(null)
   const [findingEventId, setFindingEventId] = useState(false)
+  const [remoteMerge, setRemoteMerge] = useState<JournalConflict | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const currentNoteIdRef = useRef<string | null>(null)
   const previousNoteDataRef = useRef<{ id: string; title: string; content: string } | null>(null)
@@ -65,6 +85,8 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
   }, [note])
 
   useEffect(() => {
+    // Nothing is saved over a conflict or a remote change until the user resolves it
+    if (conflict || remoteNote) return
     if (note && (debouncedTitle !== note.title || debouncedContent !== note.content)) {
       // Only save if there's actual content (not just empty note)
       if (debouncedTitle.trim() || debouncedContent.trim()) {
@@ -99,7 +121,45 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
     setHasUnsavedChanges(true)
   }
 
+  // A newer version from another device replaces the text only if nothing is unsaved,
+  // also once unsaved changes are gone after it arrived
+  useEffect(() => {
+    if (remoteNote && !hasUnsavedChanges) {
+      console.log("[NostrJournal] Reloading note changed on another device:", remoteNote.id)
+      onApplyRemoteNote?.(remoteNote)
+    }
+  }, [remoteNote, hasUnsavedChanges])
+
+  const startRemoteMerge = () => {
+    if (!note || !remoteNote) return
+    const base = previousNoteDataRef.current
+    setRemoteMerge({
+      noteId: note.id,
+      base: base && base.id === note.id ? { title: base.title, content: base.content, tags: note.tags } : undefined,
+      local: { title, content, tags: note.tags },
+      remote: {
+        title: remoteNote.title,
+        content: remoteNote.content,
+        tags: remoteNote.tags,
+        eventId: remoteNote.eventId || "",
+        createdAt: remoteNote.eventCreatedAt ?? Math.floor(remoteNote.lastModified.getTime() / 1000),
+      },
+      detectedAt: Date.now(),
+    })
+  }
+
+  const handleRemoteMergeResolve = async (resolution: "remote" | JournalVersion) => {
+    if (!remoteNote) return
+    setRemoteMerge(null)
+    onApplyRemoteNote?.(remoteNote)
+    if (resolution !== "remote") {
+      // Saved on top of the other device's version, which is now the base
+      onUpdateNote({ ...remoteNote, ...resolution })
+    }
+  }
+
   const handleSave = async () => {
+    if (remoteNote) return
     if (note && hasUnsavedChanges) {
       console.log("[NostrJournal] Manual save triggered...")
 
@@ -249,12 +309,33 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
     )
   }
 
+  if (conflict && onResolveConflict) {
+    return (
+      <div className="flex-1 bg-white dark:bg-background flex flex-col w-full h-full">
+        <MergeView
+          key={`${conflict.noteId}-${conflict.remote.eventId}`}
+          conflict={conflict}
+          onResolve={(resolution) => onResolveConflict(note, conflict, resolution)}
+        />
+      </div>
+    )
+  }
+
+  if (remoteMerge && remoteNote) {
+    return (
+      <div className="flex-1 bg-white dark:bg-background flex flex-col w-full h-full">
+        <MergeView key={`${remoteMerge.noteId}-${remoteMerge.remote.eventId}`} conflict={remoteMerge} onResolve={handleRemoteMergeResolve} />
+      </div>
+    )
+  }
+
   return (
     <div className="flex-1 bg-white dark:bg-background flex flex-col w-full h-full">
       {/* Clean Header */}
       <div className="border-b border-border px-8 py-6">
         <input
           type="text"
+          readOnly={!!note.unreadableReason}
           value={title}
           onChange={(e) => handleTitleChange(e.target.value)}
           placeholder="Note title..."
@@ -334,9 +415,34 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
         </div>
       </div>
 
+      {note.unreadableReason && (
+        <div className="mx-8 mt-4 flex items-start gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-700 dark:text-amber-400">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{note.unreadableReason} Update Nostr Journal to read or edit this entry.</span>
+        </div>
+      )}
+
+      {remoteNote && hasUnsavedChanges && (
+        <div className="mx-8 mt-4 flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-700 dark:text-amber-400">
+          <div className="flex items-start gap-2 flex-1">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>This note was changed on another device. Your edits are not saved until you reload or merge.</span>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button onClick={() => onApplyRemoteNote?.(remoteNote)} variant="outline" size="sm" className="h-8 text-xs">
+              Reload
+            </Button>
+            <Button onClick={startRemoteMerge} variant="outline" size="sm" className="h-8 text-xs">
+              Merge
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Clean Editor */}
       <div className="flex-1 px-8 py-6">
         <Textarea
+          readOnly={!!note.unreadableReason}
           ref={textareaRef}
           value={content}
           onChange={(e) => handleContentChange(e.target.value)}
@@ -420,8 +526,8 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
               {/* Individual note sync status removed - using global sync */}
             </div>
             
-            {/* Event ID with actions - Show for notes WITH eventId */}
-            {note.eventId && (
+            {/* Event ID with actions - Show for notes WITH eventId (entries kept on this device have none) */}
+            {note.eventId && !isLocalJournalVersion(note.eventId) && (
               <div className="flex items-center gap-1">
                 <span className="text-muted-foreground">Event ID:</span>
                 <code className="text-xs font-mono text-primary bg-primary/10 px-1.5 py-0.5 rounded">
@@ -455,6 +561,33 @@ export default function Editor({ note, onUpdateNote, onPublishNote, onPublishHig
               </div>
             )}
           </div>
+
+          {/* What each relay answered to the last save of this note */}
+          {note.relayReceipts && Object.keys(note.relayReceipts).length > 0 && (
+            <div className="mt-2 text-xs">
+              <div className="text-muted-foreground mb-1">
+                {Object.values(note.relayReceipts).filter((receipt) => receipt.status === "ok").length} of{" "}
+                {Object.keys(note.relayReceipts).length} relays hold this version
+              </div>
+              <ul className="space-y-0.5">
+                {Object.entries(note.relayReceipts).map(([relay, receipt]) => (
+                  <li key={relay} className="flex items-center gap-1.5 min-w-0">
+                    {receipt.status === "ok" && <CheckCircle className="w-3 h-3 shrink-0 text-green-500" />}
+                    {receipt.status === "failed" && <AlertCircle className="w-3 h-3 shrink-0 text-destructive" />}
+                    {receipt.status === "timeout" && <AlertCircle className="w-3 h-3 shrink-0 text-amber-500" />}
+                    {receipt.status === "pending" && <Loader2 className="w-3 h-3 shrink-0 animate-spin text-muted-foreground" />}
+                    <span className="font-mono text-foreground/80 truncate">{relay.replace(/^wss:\/\//, "")}</span>
+                    {receipt.status === "failed" && (
+                      <span className="text-destructive truncate" title={receipt.message}>
+                        {describeOkResult({ prefix: receipt.prefix, message: receipt.message || "" })}
+                      </span>
+                    )}
+                    {receipt.status === "timeout" && <span className="text-amber-600 dark:text-amber-400">No answer</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {selectedText && (
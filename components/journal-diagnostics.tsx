@@ -0,0 +1,273 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ShieldAlert, ShieldCheck, RefreshCw, AlertCircle, Inbox, Loader2, CheckCircle, Wrench } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DetailedConnectionStatus } from "@/components/connection-status"
+import {
+  getJournalLoadDiagnostics,
+  scanJournalRelays,
+  repairJournalRelays,
+  type JournalLoadDiagnostics,
+  type JournalRepairPlan,
+  type JournalRepairProgress,
+  type JournalRepairResult,
+} from "@/lib/kind30001-journal"
+import { summarizeStaleRelays } from "@/lib/addressable-events"
+import { journalOutbox, type OutboxEntry } from "@/lib/journal-outbox"
+
+interface JournalDiagnosticsProps {
+  authData: any
+}
+
+export function JournalDiagnostics({ authData }: JournalDiagnosticsProps) {
+  const [diagnostics, setDiagnostics] = useState<JournalLoadDiagnostics | null>(() => getJournalLoadDiagnostics())
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([])
+  const [repairPlan, setRepairPlan] = useState<JournalRepairPlan | null>(null)
+  const [repairProgress, setRepairProgress] = useState<JournalRepairProgress | null>(null)
+  const [repairResult, setRepairResult] = useState<JournalRepairResult | null>(null)
+  const [repairError, setRepairError] = useState<string | null>(null)
+
+  const refresh = () => {
+    setDiagnostics(getJournalLoadDiagnostics())
+    journalOutbox.getAll().then(setOutboxEntries)
+  }
+
+  useEffect(() => {
+    journalOutbox.getAll().then(setOutboxEntries)
+  }, [])
+
+  // Dry run: report what each relay is missing without publishing anything
+  const handleScan = async () => {
+    setRepairPlan(null)
+    setRepairResult(null)
+    setRepairError(null)
+    try {
+      setRepairPlan(await scanJournalRelays(authData, setRepairProgress))
+    } catch (error) {
+      setRepairError(error instanceof Error ? error.message : "Failed to scan relays")
+    } finally {
+      setRepairProgress(null)
+    }
+  }
+
+  const handleRepair = async () => {
+    if (!repairPlan) return
+    try {
+      setRepairResult(await repairJournalRelays(repairPlan, setRepairProgress))
+      setRepairPlan(null)
+    } catch (error) {
+      setRepairError(error instanceof Error ? error.message : "Failed to copy events")
+    } finally {
+      setRepairProgress(null)
+    }
+  }
+
+  const missingCount = repairPlan?.relays.reduce((sum, status) => sum + status.missing.length, 0) ?? 0
+
+  return (
+    <div className="p-4 space-y-6 max-w-3xl mx-auto overflow-y-auto">
+      <DetailedConnectionStatus />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Journal Event Verification</h3>
+          <Button
+            onClick={refresh}
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+          >
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Refresh
+          </Button>
+        </div>
+
+        {!diagnostics ? (
+          <p className="text-xs text-muted-foreground">The journal has not been loaded yet.</p>
+        ) : (
+          <>
+            <div className="text-xs text-muted-foreground">
+              Last load {diagnostics.loadedAt.toLocaleTimeString()}: {diagnostics.acceptedEvents} of{" "}
+              {diagnostics.receivedEvents} events accepted
+            </div>
+
+            {diagnostics.rejectedEvents.length === 0 ? (
+              <div className="flex items-center gap-2 text-xs text-green-600 dark:text-green-400">
+                <ShieldCheck className="h-4 w-4" />
+                All events were signed by your key
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+                  <ShieldAlert className="h-4 w-4" />
+                  {diagnostics.rejectedEvents.length} forged or invalid events were ignored
+                </div>
+                {diagnostics.rejectedEvents.map((rejected) => (
+                  <div key={rejected.eventId} className="rounded border border-border bg-muted/30 px-3 py-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <code className="font-mono truncate">{rejected.eventId}</code>
+                      <span className="text-muted-foreground flex-shrink-0">kind {rejected.kind}</span>
+                    </div>
+                    <div className="text-red-600 dark:text-red-400">{rejected.reason}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {summarizeStaleRelays(diagnostics.staleVersions).map((stale) => (
+              <div
+                key={stale.relay}
+                className="flex items-center justify-between gap-2 rounded border border-amber-300 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 px-3 py-2 text-xs"
+              >
+                <div className="flex items-center gap-2 text-amber-700 dark:text-amber-300 min-w-0">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate">Relay out of date: {stale.relay}</span>
+                </div>
+                <span className="text-muted-foreground flex-shrink-0">
+                  {stale.staleAddresses} {stale.staleAddresses === 1 ? "entry" : "entries"} behind
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Relay Repair</h3>
+          <Button
+            onClick={handleScan}
+            disabled={repairProgress !== null}
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+          >
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Check relays
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Compares the journal on every relay (including ones you added in Manage Relays) and copies the newest
+          version of each entry to relays that are missing it or serve an older one. With journal storage relays set,
+          entries are only copied to those.
+        </p>
+
+        {repairProgress && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {repairProgress.phase === "scanning"
+              ? `Scanned ${repairProgress.done} of ${repairProgress.total} relays...`
+              : `Copied ${repairProgress.done} of ${repairProgress.total} events...`}
+          </div>
+        )}
+
+        {repairError && (
+          <div className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {repairError}
+          </div>
+        )}
+
+        {repairPlan && !repairProgress && (
+          <>
+            <div className="text-xs text-muted-foreground">
+              Checked {repairPlan.scannedAt.toLocaleTimeString()}: {repairPlan.latestEvents} events make up the newest
+              version of your journal
+            </div>
+            {repairPlan.relays.map((status) => (
+              <div
+                key={status.relay}
+                className="flex items-center justify-between gap-2 rounded border border-border bg-muted/30 px-3 py-2 text-xs"
+              >
+                <span className="truncate">{status.relay}</span>
+                {status.error ? (
+                  <span className="text-red-600 dark:text-red-400 flex-shrink-0" title={status.error}>
+                    unreachable
+                  </span>
+                ) : status.missing.length === 0 ? (
+                  <span className="flex items-center gap-1 text-green-600 dark:text-green-400 flex-shrink-0">
+                    <CheckCircle className="h-3 w-3" />
+                    up to date
+                  </span>
+                ) : (
+                  <span className="text-amber-700 dark:text-amber-300 flex-shrink-0">
+                    {status.missing.length} missing{status.stale > 0 && ` (${status.stale} outdated)`}
+                  </span>
+                )}
+              </div>
+            ))}
+            {missingCount > 0 && (
+              <Button onClick={handleRepair} size="sm" className="h-7 px-2 text-xs">
+                <Wrench className="h-3 w-3 mr-1" />
+                Copy {missingCount} {missingCount === 1 ? "event" : "events"} to relays
+              </Button>
+            )}
+          </>
+        )}
+
+        {repairResult && !repairProgress && (
+          <div className="space-y-1 text-xs">
+            <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
+              <CheckCircle className="h-4 w-4" />
+              {repairResult.copied} {repairResult.copied === 1 ? "event" : "events"} copied
+            </div>
+            {repairResult.failed.map((failure) => (
+              <div key={`${failure.relay}:${failure.eventId}`} className="text-red-600 dark:text-red-400 truncate" title={failure.message}>
+                {failure.relay}: {failure.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Outbox</h3>
+        {outboxEntries.length === 0 ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Inbox className="h-4 w-4" />
+            Nothing waiting to be published
+          </div>
+        ) : (
+          outboxEntries.map((entry) => (
+            <div key={entry.address} className="rounded border border-border bg-muted/30 px-3 py-2 text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <code className="font-mono truncate">{entry.event?.id || entry.address}</code>
+                <span className="text-muted-foreground flex-shrink-0">
+                  {entry.conflict
+                    ? "held: edited on another device"
+                    : entry.state === "unsigned" ? "waiting for signer" : `attempt ${entry.attempts}`}
+                </span>
+              </div>
+              {entry.queuedNote?.scheme === "plaintext" && (
+                <div className="text-amber-600 dark:text-amber-400">
+                  Not encrypted: the signer could not encrypt this edit, so it is stored in plain text on this device
+                  until it is signed
+                </div>
+              )}
+              {entry.lastError && <div className="text-red-600 dark:text-red-400">{entry.lastError}</div>}
+              <div className="text-muted-foreground">Next try {new Date(entry.nextAttemptAt).toLocaleTimeString()}</div>
+              {Object.entries(entry.relays).map(([relay, state]) => (
+                <div key={relay} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{relay}</span>
+                  <span
+                    className={
+                      state.status === "ok"
+                        ? "text-green-600 dark:text-green-400"
+                        : state.status === "failed"
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-muted-foreground"
+                    }
+                    title={state.message}
+                  >
+                    {state.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { X, Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { getJournalSettings, saveJournalSettings, type JournalStorageBackend } from "@/lib/journal-settings"
+import { JOURNAL_STORES } from "@/lib/journal-store"
+import { PADDING_POLICIES, type JournalPaddingPolicy } from "@/lib/journal-padding"
+
+interface JournalSettingsModalProps {
+  onClose: () => void
+  onExport?: () => Promise<void>
+}
+
+export function JournalSettingsModal({ onClose, onExport }: JournalSettingsModalProps) {
+  const [settings] = useState(() => getJournalSettings())
+  const [retentionDays, setRetentionDays] = useState(String(settings.trashRetentionDays))
+  const [storageBackend, setStorageBackend] = useState<JournalStorageBackend>(settings.storageBackend)
+  const [paddingPolicy, setPaddingPolicy] = useState<JournalPaddingPolicy>(settings.paddingPolicy)
+  const [publishQuorum, setPublishQuorum] = useState(String(settings.publishQuorum))
+  const [isExporting, setIsExporting] = useState(false)
+
+  const parsedRetention = Number.parseInt(retentionDays, 10)
+  const isRetentionValid = Number.isFinite(parsedRetention) && parsedRetention >= 1
+  const parsedQuorum = Number.parseInt(publishQuorum, 10)
+  const isQuorumValid = Number.isFinite(parsedQuorum) && parsedQuorum >= 1
+
+  const handleSave = () => {
+    if (!isRetentionValid || !isQuorumValid) return
+    saveJournalSettings({ trashRetentionDays: parsedRetention, storageBackend, paddingPolicy, publishQuorum: parsedQuorum })
+    if (storageBackend !== settings.storageBackend) {
+      // The app loads its notes from the store once, so start over with the new one
+      window.location.reload()
+      return
+    }
+    onClose()
+  }
+
+  const handleExport = async () => {
+    if (!onExport) return
+    setIsExporting(true)
+    try {
+      await onExport()
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div className="bg-background rounded-lg shadow-xl w-full max-w-md border border-border">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-bold text-foreground">Journal Settings</h2>
+          <Button onClick={onClose} variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="trash-retention" className="block text-sm font-medium text-foreground">
+              Keep deleted notes in trash for (days)
+            </label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={1}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              After this period, trashed notes are permanently deleted from your relays.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="publish-quorum" className="block text-sm font-medium text-foreground">
+              Relays that must accept a save
+            </label>
+            <Input
+              id="publish-quorum"
+              type="number"
+              min={1}
+              value={publishQuorum}
+              onChange={(e) => setPublishQuorum(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Until this many relays have a save, it stays queued and is retried. Capped at the number of relays.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <span className="block text-sm font-medium text-foreground">Storage backend</span>
+            {Object.values(JOURNAL_STORES).map((store) => (
+              <label key={store.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="storage-backend"
+                  value={store.id}
+                  checked={storageBackend === store.id}
+                  onChange={() => setStorageBackend(store.id)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-foreground">{store.label}</span>
+                  <span className="block text-xs text-muted-foreground">{store.description}</span>
+                </span>
+              </label>
+            ))}
+            {storageBackend !== settings.storageBackend && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Entries are not copied between backends. The app reloads to switch.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <span className="block text-sm font-medium text-foreground">Length padding</span>
+            {(Object.keys(PADDING_POLICIES) as JournalPaddingPolicy[]).map((policy) => (
+              <label key={policy} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="padding-policy"
+                  value={policy}
+                  checked={paddingPolicy === policy}
+                  onChange={() => setPaddingPolicy(policy)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-foreground">{PADDING_POLICIES[policy].label}</span>
+                  <span className="block text-xs text-muted-foreground">{PADDING_POLICIES[policy].description}</span>
+                </span>
+              </label>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Applies to entries as they are saved; padding hides how long entries are from relays.
+            </p>
+          </div>
+
+          {onExport && (
+            <Button onClick={handleExport} disabled={isExporting} variant="outline" size="sm">
+              {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export journal (JSON)
+            </Button>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end p-4 border-t border-border">
+          <Button onClick={onClose} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isRetentionValid || !isQuorumValid}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { X, Loader2, AlertCircle, CheckCircle2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import type { DecryptedNote } from "@/lib/nostr-crypto"
+import {
+  findLegacyNotes,
+  migrateLegacyNotes,
+  type LegacyNoteCandidate,
+  type LegacyMigrationResult,
+} from "@/lib/legacy-note-migration"
+
+interface LegacyMigrationWizardProps {
+  authData: any
+  existingNotes: DecryptedNote[]
+  onMigrated: (notes: DecryptedNote[]) => void
+  onClose: () => void
+}
+
+type WizardStep = "scanning" | "review" | "migrating" | "done"
+
+const DUPLICATE_LABELS = {
+  "same-id": "Already in your journal (different text)",
+  "same-content": "Already in your journal",
+}
+
+export function LegacyMigrationWizard({ authData, existingNotes, onMigrated, onClose }: LegacyMigrationWizardProps) {
+  const [step, setStep] = useState<WizardStep>("scanning")
+  const [candidates, setCandidates] = useState<LegacyNoteCandidate[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [deleteOriginals, setDeleteOriginals] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [result, setResult] = useState<LegacyMigrationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    findLegacyNotes(authData, existingNotes)
+      .then((found) => {
+        setCandidates(found)
+        // Duplicates start unselected; everything else is migrated by default
+        setSelectedIds(new Set(found.filter((candidate) => !candidate.duplicateOf).map((candidate) => candidate.note.id)))
+        setPreviewId(found[0]?.note.id ?? null)
+        setStep("review")
+      })
+      .catch((scanError) => {
+        console.error("[LegacyMigration] ❌ Failed to scan for legacy notes:", scanError)
+        setError(scanError instanceof Error ? scanError.message : "Failed to scan for legacy notes")
+        setStep("review")
+      })
+    // Scan once when the wizard opens
+  }, [])
+
+  const toggle = (noteId: string) => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous)
+      if (next.has(noteId)) {
+        next.delete(noteId)
+      } else {
+        next.add(noteId)
+      }
+      return next
+    })
+  }
+
+  const handleMigrate = async () => {
+    const chosen = candidates.filter((candidate) => selectedIds.has(candidate.note.id)).map((candidate) => candidate.note)
+    setStep("migrating")
+    setProgress({ done: 0, total: chosen.length })
+    const migration = await migrateLegacyNotes(chosen, authData, existingNotes, {
+      deleteOriginals,
+      onProgress: (done, total) => setProgress({ done, total }),
+    })
+    setResult(migration)
+    if (migration.migrated.length > 0) onMigrated(migration.migrated)
+    setStep("done")
+  }
+
+  const preview = candidates.find((candidate) => candidate.note.id === previewId)?.note
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div className="bg-background rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-border">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-bold text-foreground">Import Legacy Notes</h2>
+          <Button
+            onClick={onClose}
+            disabled={step === "migrating"}
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4">
+          {step === "scanning" && (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Looking for notes saved by older versions (kind 30078)...
+            </div>
+          )}
+
+          {step === "review" && error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {step === "review" && !error && candidates.length === 0 && (
+            <p className="py-12 text-center text-sm text-muted-foreground">No notes from older versions were found.</p>
+          )}
+
+          {step === "review" && candidates.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 min-h-0">
+              <ul className="space-y-1">
+                {candidates.map(({ note, duplicateOf }) => (
+                  <li
+                    key={note.id}
+                    onClick={() => setPreviewId(note.id)}
+                    className={`flex items-start gap-2 p-2 rounded-md cursor-pointer ${
+                      previewId === note.id ? "bg-muted" : "hover:bg-muted/50"
+                    }`}
+                  >
+                    <Checkbox
+                      checked={selectedIds.has(note.id)}
+                      onCheckedChange={() => toggle(note.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mt-0.5"
+                    />
+                    <div className="min-w-0">
+                      <div className="text-sm text-foreground truncate">{note.title || "Untitled Note"}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(note.lastModified || note.createdAt).toLocaleDateString()}
+                        {duplicateOf && (
+                          <span className="ml-2 text-amber-600 dark:text-amber-400">{DUPLICATE_LABELS[duplicateOf.reason]}</span>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="border border-border rounded-lg p-3 overflow-y-auto max-h-[50vh]">
+                {preview ? (
+                  <>
+                    <div className="font-semibold text-foreground mb-2">{preview.title || "Untitled Note"}</div>
+                    <div className="whitespace-pre-wrap break-words text-sm text-foreground/80">{preview.content}</div>
+                  </>
+                ) : (
+                  <div className="text-xs text-muted-foreground">Select a note to preview it</div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === "migrating" && (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Migrating {progress.done} of {progress.total}...
+            </div>
+          )}
+
+          {step === "done" && result && (
+            <div className="space-y-2 py-6 text-sm">
+              <div className="flex items-center gap-2 text-foreground">
+                <CheckCircle2 className="w-4 h-4 text-green-500" />
+                {result.migrated.length} notes moved to your journal
+                {deleteOriginals && `, ${result.deletedOriginals} originals deleted`}
+              </div>
+              {result.failed.length > 0 && (
+                <div className="flex items-start gap-2 text-destructive">
+                  <AlertCircle className="w-4 h-4 mt-0.5" />
+                  <span>
+                    {result.failed.length} could not be migrated and were left as they are:{" "}
+                    {result.failed.map(({ note }) => note.title || "Untitled Note").join(", ")}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between p-4 border-t border-border">
+          {step === "review" && candidates.length > 0 ? (
+            <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <Checkbox checked={deleteOriginals} onCheckedChange={(checked) => setDeleteOriginals(checked === true)} />
+              Delete the originals after migrating
+            </label>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2 justify-end">
+            {step === "review" && candidates.length > 0 ? (
+              <>
+                <Button onClick={onClose} variant="outline">
+                  Cancel
+                </Button>
+                <Button onClick={handleMigrate} disabled={selectedIds.size === 0}>
+                  Migrate {selectedIds.size} {selectedIds.size === 1 ? "note" : "notes"}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={onClose} disabled={step === "migrating"}>
+                Close
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,21 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import type { JournalLoadProgress, RelayLoadStatus } from "@/lib/kind30001-journal"
 
 interface LoadingScreenProps {
   isLoading: boolean
+  progress?: JournalLoadProgress | null
 }
 
-export function LoadingScreen({ isLoading }: LoadingScreenProps) {
+const RELAY_STATUS_LABELS: Record<RelayLoadStatus, string> = {
+  loading: "loading",
+  complete: "done",
+  failed: "failed",
+  abandoned: "too slow",
+}
+
+export function LoadingScreen({ isLoading, progress }: LoadingScreenProps) {
   if (!isLoading) return null
 
   return (
@@ -24,6 +33,24 @@ export function LoadingScreen({ isLoading }: LoadingScreenProps) {
             <div></div>
             <div></div>
           </div>
+
+          {progress && (
+            <div className="space-y-2 text-sm text-muted-foreground">
+              <p>
+                {progress.receivedEvents} entries received · {progress.relaysDone} of {progress.relaysTotal} relays done
+              </p>
+              <ul className="text-xs space-y-1">
+                {Object.entries(progress.relays).map(([relay, { status, events }]) => (
+                  <li key={relay} className="flex justify-between gap-4">
+                    <span className="truncate">{relay.replace(/^wss:\/\//, "")}</span>
+                    <span>
+                      {RELAY_STATUS_LABELS[status]} · {events}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
       
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import {
   Menu,
   X,
@@ -21,6 +21,8 @@ import {
   Zap,
   Upload,
   Download,
+  Activity,
+  Import,
 } from "lucide-react"
 import TagsPanel from "@/components/tags-panel"
 import NoteList from "@/components/note-list"
@@ -43,22 +45,49 @@ import { useTheme } from "@/lib/theme-provider"
 import { Logo } from "./logo"
 import { Input } from "@/components/ui/input"
 import DonationBubble from "@/components/donation-bubble"
-import { loadEncryptedNotes } from "@/lib/nostr-crypto"
+import { loadEncryptedNotes, type DecryptedNote } from "@/lib/nostr-crypto"
 import { createNostrEvent, publishToNostr } from "@/lib/nostr-publish"
 import { cleanupSigner } from "@/lib/signer-manager"
+import { cryptoService } from "@/lib/crypto-service"
+import { clearSelfEncryptionKeys } from "@/lib/self-encryption"
+import { clearGiftWrapState } from "@/lib/gift-wrap-journal"
 // import { smartSyncNotes, saveAndSyncNote } from "@/lib/nostr-sync-fixed" // Disabled - using simple events
-import { loadJournalFromKind30001, saveJournalAsKind30001, deleteJournalKind30001, syncFromKind30001 } from "@/lib/kind30001-journal"
+import {
+  processJournalOutbox,
+  getJournalOutboxLength,
+  deleteJournalKind30001,
+  migrateJournalEntries,
+  needsJournalMigration,
+  getJournalLoadDiagnostics,
+  getJournalConflicts,
+  acceptRemoteJournalVersion,
+  resetJournalState,
+  cleanupPool,
+  type TrashedJournalEntry,
+  type JournalLoadProgress,
+} from "@/lib/kind30001-journal"
+import type { JournalConflict, JournalVersion } from "@/lib/journal-conflicts"
+import { getJournalSettings } from "@/lib/journal-settings"
+import { getJournalStore } from "@/lib/journal-store"
+import { summarizeStaleRelays } from "@/lib/addressable-events"
 import { sanitizeNotes } from "@/lib/data-validators"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { RelayManager } from "@/components/relay-manager"
 import { ConnectionStatus } from "@/components/connection-status"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { getDefaultRelays, initializePersistentRelayPool, shutdownPersistentRelayPool } from "@/lib/relay-manager"
+import { loadRelayList, clearRelayList } from "@/lib/relay-list"
 import { DonationModal } from "@/components/donation-modal-proper"
 import { setActiveSigner } from "@/lib/signer-connector"
 import { remoteSignerManager } from "@/lib/remote-signer-manager"
 import { LoadingScreen } from "@/components/loading-screen"
+import { JournalDiagnostics } from "@/components/journal-diagnostics"
+import { JournalSettingsModal } from "@/components/journal-settings"
+import { LegacyMigrationWizard } from "@/components/legacy-migration-wizard"
+import TrashView from "@/components/trash-view"
 import type { Nip46SessionState } from 'nostr-signer-connector'
+import { CURRENT_JOURNAL_ALGORITHM, JOURNAL_ENVELOPE_VERSION, type JournalEnvelopeAlgorithm } from "@/lib/journal-envelope"
+import type { RelayReceipts } from "@/lib/journal-outbox"
 
 // Sync Status Component
 const SyncStatusIcons = ({ note }: { note: Note }) => {
@@ -90,11 +119,16 @@ export interface Note {
   lastModified: Date
   lastSynced?: Date
   eventId?: string // Nostr event ID for verification
+  eventCreatedAt?: number // created_at of eventId (base version for conflict checks)
   eventKind?: number // Track which kind was used (30078 or 31078)
   isSynced?: boolean // True if event exists on relays and is verified
   // Sync status tracking
   publishedToRelays?: boolean // True if successfully published to relays
   fetchedFromRelays?: boolean // True if successfully fetched from relays
+  encryptionScheme?: JournalEnvelopeAlgorithm // Algorithm the loaded event was encrypted with
+  envelopeVersion?: number // Ciphertext envelope version (0 = bare legacy blob)
+  unreadableReason?: string // Set when this version can't read the entry's envelope
+  relayReceipts?: RelayReceipts // What each relay answered to the latest save, or which relays served it
 }
 
 export interface AuthData {
@@ -126,7 +160,10 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
   const [showPublishModal, setShowPublishModal] = useState(false)
   const [publishedEventId, setPublishedEventId] = useState("")
   const [isPublishing, setIsPublishing] = useState(false)
+  // Storage backend picked in settings; switching takes effect on the next load
+  const [journalStore] = useState(() => getJournalStore())
   const [isLoading, setIsLoading] = useState(true)
+  const [loadProgress, setLoadProgress] = useState<JournalLoadProgress | null>(null) // Set while relays are streaming entries
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false)
   const [syncStatus, setSyncStatus] = useState<"synced" | "syncing" | "offline" | "error">("offline")
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null)
@@ -134,11 +171,17 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
   const [needsSync, setNeedsSync] = useState(false)
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false)
   const [noteToDelete, setNoteToDelete] = useState<Note | null>(null)
-  const [deletedNotes, setDeletedNotes] = useState<{ id: string; deletedAt: Date }[]>([])
+  const [deletedNotes, setDeletedNotes] = useState<TrashedJournalEntry[]>([])
   const [showProfile, setShowProfile] = useState(false)
   const [showRelayManager, setShowRelayManager] = useState(false)
   const [showRelaysInDropdown, setShowRelaysInDropdown] = useState(false)
   const [showDiagnostics, setShowDiagnostics] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showLegacyMigration, setShowLegacyMigration] = useState(false)
+  const [outdatedRelays, setOutdatedRelays] = useState<{ relay: string; staleAddresses: number }[]>([])
+  const [conflicts, setConflicts] = useState<JournalConflict[]>([])
+  // Newer version of an entry that arrived from another device, not yet applied to the editor
+  const [incomingNote, setIncomingNote] = useState<Note | null>(null)
   const [connectionError, setConnectionError] = useState<string | null>(null)
   const [copiedNpub, setCopiedNpub] = useState(false)
   const [npub, setNpub] = useState<string>("")
@@ -148,6 +191,7 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
   const [displayName, setDisplayName] = useState<string>("")
   const [showDonationModal, setShowDonationModal] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const encryptionMigrationAttempted = useRef<Set<string>>(new Set())
   
   // Event management removed - using direct sync instead
 
@@ -298,6 +342,44 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     //   // No cleanup needed since we're not starting any intervals
     // };
 
+  // Retry due outbox entries, flag notes that reached a relay and refresh the queue count
+  const runOutbox = async () => {
+    const { published, conflicts: newConflicts, queueLength } = await processJournalOutbox(authData)
+    setSyncQueueStats({ queueLength, processing: false })
+    if (newConflicts.length > 0) {
+      console.warn("[NostrJournal] ⚠️ Queued edits conflict with other devices:", newConflicts)
+      refreshConflicts()
+    }
+    if (published.length === 0) return
+    console.log("[NostrJournal] ✅ Published", published.length, "queued notes")
+    setNotes((prevNotes) =>
+      prevNotes.map((note) => {
+        const entry = published.find((p) => p.noteId === note.id)
+        return entry
+          ? {
+              ...note,
+              eventId: entry.eventId,
+              eventCreatedAt: entry.eventCreatedAt,
+              relayReceipts: entry.relays,
+              isSynced: true,
+              publishedToRelays: true,
+              lastSynced: new Date(),
+            }
+          : note
+      }),
+    )
+  }
+
+  const refreshOutboxStats = async () => {
+    const queueLength = await getJournalOutboxLength(authData)
+    setSyncQueueStats((prev) => ({ ...prev, queueLength }))
+  }
+
+  // Edits held back because another device saved the same entry first
+  const refreshConflicts = async () => {
+    setConflicts(await getJournalConflicts(authData))
+  }
+
   useEffect(() => {
     const loadUserNotes = async () => {
       console.log("[NostrJournal] Loading notes for user:", authData.pubkey)
@@ -357,26 +439,62 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
           }
         }
 
+        // The user's NIP-65 relay list (kind 10002) decides which relays are read and written.
+        // Resolved first, so nothing below looks up journal data on the default relays.
+        await loadRelayList(authData.pubkey)
+
+        // Show cached entries right away; relays reconcile below
+        const cachedNotes = await journalStore.loadCached(authData)
+        if (cachedNotes.length > 0) {
+          const validatedCachedNotes = sanitizeNotes(cachedNotes.map(note => ({
+            ...note,
+            source: 'cache',
+            publishedToRelays: note.syncStatus !== "local",
+            isSynced: note.syncStatus !== "local"
+          })))
+          setNotes(validatedCachedNotes)
+          setTags(Array.from(new Set(validatedCachedNotes.flatMap((note) => note.tags))))
+          setIsLoading(false)
+          console.log("[NostrJournal] 💾 Showing", validatedCachedNotes.length, "cached notes while relays sync")
+        }
+
         // Load notes from Kind 30001 lists
         console.log("[NostrJournal] Loading journal entries from Kind 30001 lists...")
         let relayNotes: any[] = []
         try {
-          relayNotes = await loadJournalFromKind30001(authData)
+          relayNotes = await journalStore.load(authData, {
+            onProgress: setLoadProgress,
+            // Show entries as relays deliver and decrypt them, while slower relays are still coming in
+            onPage: (pageNotes) => {
+              if (pageNotes.length === 0) return
+              clearTimeout(loadTimeout)
+              setNotes(sanitizeNotes(pageNotes.map(note => ({
+                ...note,
+                source: 'relay',
+                publishedToRelays: note.syncStatus !== "local",
+                isSynced: note.syncStatus !== "local"
+              }))))
+              setIsLoading(false)
+            },
+          })
           console.log("[NostrJournal] ✅ Loaded", relayNotes.length, "journal entries from Kind 30001 lists")
+          setOutdatedRelays(summarizeStaleRelays(getJournalLoadDiagnostics()?.staleVersions || []))
         } catch (error) {
           console.error("[NostrJournal] ❌ Failed to load from Kind 30001 lists:", error)
+        } finally {
+          setLoadProgress(null)
         }
 
         // LOCAL STORAGE DISABLED - Only use remote data
         console.log("[NostrJournal] 🌐 Using only remote data - local storage disabled")
         
-        // Use only relay notes since local storage is disabled
+        // Relay notes already include cached entries and edits not yet published
         const allNotes = relayNotes.map(note => ({
           ...note,
           source: 'relay',
-          fetchedFromRelays: true,
-          publishedToRelays: true, // If fetched from relays, it was previously published
-          isSynced: true // All notes fetched from relays are synced
+          fetchedFromRelays: note.syncStatus !== "local",
+          publishedToRelays: note.syncStatus !== "local",
+          isSynced: note.syncStatus !== "local"
         }))
         
         console.log("[NostrJournal] Loaded", allNotes.length, "notes from Nostr relays only")
@@ -388,6 +506,24 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
         // Set notes in state
         setNotes(validatedNotes)
 
+        // Edits queued while offline or while the signer was away go out now;
+        // the ones another device overtook in the meantime are shown for merging
+        runOutbox().then(() => refreshConflicts())
+
+        // The trash list is loaded with the notes; hard-delete anything past retention in the background
+        const trash = journalStore.trash
+        if (trash) {
+          setDeletedNotes(trash.list())
+          trash.purgeExpired(authData, getJournalSettings().trashRetentionDays).then((result) => {
+            if (result.error) {
+              console.error("[NostrJournal] ❌ Failed to purge expired trash:", result.error)
+            } else if (result.purged > 0) {
+              console.log("[NostrJournal] 🗑️ Purged", result.purged, "expired trash entries")
+              setDeletedNotes(trash.list())
+            }
+          })
+        }
+
         // Extract tags
         const allTags = new Set<string>()
         validatedNotes.forEach((note) => {
@@ -433,6 +569,138 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     }
   }, [authData]) // Only depend on pubkey, not entire authData object
 
+  // Keep working through the outbox; entries carry their own backoff, so only due ones are retried
+  useEffect(() => {
+    const handleOnline = () => {
+      console.log("[NostrJournal] 🌐 Back online, publishing queued notes...")
+      runOutbox()
+    }
+    const outboxInterval = setInterval(runOutbox, 10000)
+    window.addEventListener("online", handleOnline)
+    return () => {
+      clearInterval(outboxInterval)
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [authData])
+
+  // Apply changes from other devices as they are published, once the first load is done
+  const initialSyncDone = lastSyncTime !== null
+  // Bumped when the relays the journal reads from change, so live sync moves to the new relays
+  const [journalRelayGeneration, setJournalRelayGeneration] = useState(0)
+  useEffect(() => {
+    if (!initialSyncDone) return
+
+    let closed = false
+    let closeSubscription: (() => void) | null = null
+
+    const subscribe = async () => {
+      closeSubscription?.()
+      const close = await journalStore.subscribe(authData, {
+        onNoteChanged: (changed) => {
+          const [note] = sanitizeNotes([{ ...changed, isSynced: true, publishedToRelays: true, fetchedFromRelays: true }])
+          if (!note) return
+          setNotes((prevNotes) =>
+            prevNotes.some((n) => n.id === note.id) ? prevNotes.map((n) => (n.id === note.id ? note : n)) : [note, ...prevNotes],
+          )
+          setTags((prevTags) => Array.from(new Set([...prevTags, ...note.tags])))
+          // The open note is handed to the editor, which decides whether it can reload
+          setIncomingNote(note)
+        },
+        onNotesDeleted: (noteIds) => {
+          console.log("[NostrJournal] 🗑️ Deleted on another device:", noteIds)
+          setNotes((prevNotes) => prevNotes.filter((n) => !noteIds.includes(n.id)))
+          setSelectedNote((prev) => (prev && noteIds.includes(prev.id) ? null : prev))
+        },
+        onTrashChanged: (trash) => {
+          setDeletedNotes(trash)
+          const trashedIds = new Set(trash.map((entry) => entry.note.id))
+          setNotes((prevNotes) => prevNotes.filter((n) => !trashedIds.has(n.id)))
+        },
+        onConflict: () => {
+          refreshConflicts()
+          refreshOutboxStats()
+        },
+      })
+      if (closed) {
+        close()
+      } else {
+        closeSubscription = close
+      }
+    }
+
+    subscribe().catch((error) => console.error("[NostrJournal] ❌ Live sync subscription failed:", error))
+    // Relays drop subscriptions while offline; open a fresh one when the connection is back
+    const handleOnline = () => {
+      subscribe().catch((error) => console.error("[NostrJournal] ❌ Live sync subscription failed:", error))
+    }
+    window.addEventListener("online", handleOnline)
+
+    return () => {
+      closed = true
+      closeSubscription?.()
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [authData, initialSyncDone, journalRelayGeneration])
+
+  // Open the newer version in the editor (reload, or after a merge)
+  const handleApplyIncomingNote = (note: Note) => {
+    setIncomingNote(null)
+    setSelectedNote((prev) => (prev?.id === note.id ? note : prev))
+  }
+
+  // Only a change to the open note, newer than the version being edited, concerns the editor
+  const incomingForEditor =
+    incomingNote && selectedNote && incomingNote.id === selectedNote.id &&
+    (incomingNote.eventCreatedAt ?? 0) > (selectedNote.eventCreatedAt ?? 0)
+      ? incomingNote
+      : null
+
+  useEffect(() => {
+    setIncomingNote(null)
+  }, [selectedNote?.id])
+
+  // One-time migration for entries not yet using the current NIP-44 envelope or
+  // still stored at an older address (NIP-51 kind 30001, or a d-tag showing the note id)
+  useEffect(() => {
+    if (isLoading || journalStore.id !== "kind30001") return
+
+    const pendingNotes = notes.filter(
+      (note) => needsJournalMigration(note) && !encryptionMigrationAttempted.current.has(note.id),
+    )
+    if (pendingNotes.length === 0) return
+
+    pendingNotes.forEach((note) => encryptionMigrationAttempted.current.add(note.id))
+    const startingEventIds = new Map(pendingNotes.map((note) => [note.id, note.eventId]))
+    console.log("[NostrJournal] 🔁 Migrating", pendingNotes.length, "entries to the current envelope and layout...")
+
+    migrateJournalEntries(pendingNotes, authData)
+      .then(({ migrated, failed }) => {
+        const migratedById = new Map(migrated.map((note) => [note.id, note]))
+        setNotes((prevNotes) =>
+          prevNotes.map((note) => {
+            const migratedNote = migratedById.get(note.id)
+            // Skip notes edited meanwhile - their own save already used the current format
+            if (!migratedNote || note.eventId !== startingEventIds.get(note.id)) return note
+            return {
+              ...note,
+              eventId: migratedNote.eventId,
+              eventCreatedAt: migratedNote.eventCreatedAt,
+              eventKind: migratedNote.eventKind,
+              encryptionScheme: CURRENT_JOURNAL_ALGORITHM,
+              envelopeVersion: JOURNAL_ENVELOPE_VERSION,
+              lastSynced: new Date(),
+            }
+          }),
+        )
+        if (failed.length > 0) {
+          console.warn("[NostrJournal] ⚠️", failed.length, "entries could not be migrated, will retry next session")
+        }
+      })
+      .catch((error) => {
+        console.error("[NostrJournal] ❌ Journal migration failed:", error)
+      })
+  }, [notes, isLoading])
+
   // Background sync disabled - using instant sync instead
   // useEffect(() => {
   //   const syncInterval = setInterval(async () => {
@@ -578,16 +846,17 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
         const { getActiveSigner } = await import('@/lib/signer-connector')
         const signer = getActiveSigner()
         if (!signer) {
-          console.error("[NostrJournal] ❌ Remote signer not active!")
-          throw new Error("Remote signer disconnected. Please reconnect.")
+          // The save below queues the edit in the outbox until the signer reconnects
+          console.warn("[NostrJournal] ⚠️ Remote signer not active, edit will wait in the outbox")
+        } else {
+          console.log("[NostrJournal] ✅ Remote signer is active")
         }
-        console.log("[NostrJournal] ✅ Remote signer is active")
       } else if (authData.authMethod === 'noauth') {
         console.log("[NostrJournal] ❌ Noauth method no longer supported")
         throw new Error("Noauth method has been removed. Please use Remote Signer instead.")
       }
       
-      const result = await saveJournalAsKind30001(newNote, authData)
+      const result = await journalStore.save(newNote, authData)
       console.log("[NostrJournal] 📡 Save result:", result)
       
       if (result.success && result.eventId) {
@@ -597,16 +866,26 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
         const finalNote = { 
           ...newNote, 
           eventId: result.eventId, 
+          eventCreatedAt: result.eventCreatedAt,
+          relayReceipts: result.relays,
           lastSynced: new Date(),
-          isSynced: true,
-          publishedToRelays: true,
-          fetchedFromRelays: false
+          isSynced: !result.pending,
+          publishedToRelays: !result.pending,
+          fetchedFromRelays: false,
+          encryptionScheme: CURRENT_JOURNAL_ALGORITHM,
+          envelopeVersion: JOURNAL_ENVELOPE_VERSION
         }
         const finalUpdatedNotes = [finalNote, ...notes.filter(n => n.id !== newNote.id)]
         setNotes(finalUpdatedNotes)
         setSelectedNote(finalNote)
         
         console.log("[NostrJournal] ✅ Note creation complete!")
+      } else if (result.success && result.pending) {
+        // Queued unsigned in the outbox; it is signed and published once the signer is back
+        console.log("[NostrJournal] 📥 Note queued in outbox until the signer is available")
+        const queuedNote = { ...newNote, isSynced: false, publishedToRelays: false }
+        setNotes([queuedNote, ...notes.filter(n => n.id !== newNote.id)])
+        setSelectedNote(queuedNote)
       } else {
         console.error("[NostrJournal] ❌ Failed to save note to relays:", result.error || "Unknown error")
         alert(`Failed to save note: ${result.error || "Unknown error"}`)
@@ -615,12 +894,19 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
       console.error("[NostrJournal] ❌ Error saving new note to relays:", error)
       alert(`Error saving note: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
+    refreshOutboxStats()
 
     console.log("[NostrJournal] New note created:", newNote.id)
   }
 
   const handleUpdateNote = async (updatedNote: Note) => {
     console.log("[NostrJournal] Updating note:", updatedNote.id)
+
+    // Never overwrite an entry whose envelope this version can't read
+    if (updatedNote.unreadableReason) {
+      console.warn("[NostrJournal] ⚠️ Refusing to save unreadable entry:", updatedNote.id)
+      return
+    }
     console.log("[NostrJournal] 🔍 Auth method check - authData.authMethod:", authData.authMethod)
     console.log("[NostrJournal] 🔍 Auth method type:", typeof authData.authMethod)
 
@@ -659,16 +945,17 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
         const { getActiveSigner } = await import('@/lib/signer-connector')
         const signer = getActiveSigner()
         if (!signer) {
-          console.error("[NostrJournal] ❌ Remote signer not active!")
-          throw new Error("Remote signer disconnected. Please reconnect.")
+          // The save below queues the edit in the outbox until the signer reconnects
+          console.warn("[NostrJournal] ⚠️ Remote signer not active, edit will wait in the outbox")
+        } else {
+          console.log("[NostrJournal] ✅ Remote signer is active")
         }
-        console.log("[NostrJournal] ✅ Remote signer is active")
       } else if (authData.authMethod === 'noauth') {
         console.log("[NostrJournal] ❌ Noauth method no longer supported")
         throw new Error("Noauth method has been removed. Please use Remote Signer instead.")
       }
       
-      const result = await saveJournalAsKind30001(optimisticNote, authData)
+      const result = await journalStore.save(optimisticNote, authData)
       console.log("[NostrJournal] 📡 Update result:", result)
       
       if (result.success && result.eventId) {
@@ -678,15 +965,33 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
         const finalNote = { 
           ...optimisticNote, 
           eventId: result.eventId, 
+          eventCreatedAt: result.eventCreatedAt,
+          relayReceipts: result.relays,
           lastSynced: new Date(),
-          isSynced: true,
-          publishedToRelays: true,
-          fetchedFromRelays: false
+          isSynced: !result.pending,
+          publishedToRelays: !result.pending,
+          fetchedFromRelays: false,
+          encryptionScheme: CURRENT_JOURNAL_ALGORITHM,
+          envelopeVersion: JOURNAL_ENVELOPE_VERSION
         }
         setNotes(prevNotes => prevNotes.map(n => n.id === updatedNote.id ? finalNote : n))
         setSelectedNote(finalNote)
         
         console.log("[NostrJournal] ✅ Note update complete!")
+      } else if (result.success && result.pending) {
+        // Queued unsigned in the outbox; it is signed and published once the signer is back
+        console.log("[NostrJournal] 📥 Update queued in outbox until the signer is available")
+        const queuedNote = { ...optimisticNote, isSynced: false, publishedToRelays: false }
+        setNotes(prevNotes => prevNotes.map(n => n.id === updatedNote.id ? queuedNote : n))
+        setSelectedNote(queuedNote)
+      } else if (result.conflict) {
+        // Held in the outbox; the editor shows both versions for merging
+        console.warn("[NostrJournal] ⚠️ Note was changed on another device, not overwriting:", updatedNote.id)
+        const conflict = result.conflict
+        setConflicts(prev => [conflict, ...prev.filter(c => c.noteId !== conflict.noteId)])
+        const heldNote = { ...optimisticNote, isSynced: false, publishedToRelays: false }
+        setNotes(prevNotes => prevNotes.map(n => n.id === updatedNote.id ? heldNote : n))
+        setSelectedNote(heldNote)
       } else {
         console.error("[NostrJournal] ❌ Failed to save updated note to relays:", result.error || "Unknown error")
         alert(`Failed to update note: ${result.error || "Unknown error"}`)
@@ -695,6 +1000,7 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
       console.error("[NostrJournal] ❌ Error saving updated note to relays:", error)
       alert(`Error updating note: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
+    refreshOutboxStats()
 
     // Update tags
     const allTags = new Set<string>()
@@ -708,6 +1014,32 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     setTags(Array.from(allTags))
   }
 
+  // "remote" keeps the other device's version; anything else is saved on top of it
+  const handleResolveConflict = async (note: Note, conflict: JournalConflict, resolution: "remote" | JournalVersion) => {
+    if (resolution === "remote") {
+      const result = await acceptRemoteJournalVersion(note.id, authData)
+      if (!result.success || !result.note) {
+        alert(`Failed to keep the other version: ${result.error || "Unknown error"}`)
+        return
+      }
+      const [remoteNote] = sanitizeNotes([{ ...result.note, isSynced: true, publishedToRelays: true, fetchedFromRelays: true }])
+      setConflicts(prev => prev.filter(c => c.noteId !== note.id))
+      setNotes(prevNotes => prevNotes.map(n => n.id === note.id ? remoteNote : n))
+      setSelectedNote(remoteNote)
+      refreshOutboxStats()
+      return
+    }
+
+    setConflicts(prev => prev.filter(c => c.noteId !== note.id))
+    await handleUpdateNote({
+      ...note,
+      ...resolution,
+      // Based on the other device's version now, so it replaces it without a new conflict
+      eventId: conflict.remote.eventId,
+      eventCreatedAt: conflict.remote.createdAt,
+    })
+  }
+
   const handlePublishNote = (note: Note) => {
     setNoteToPublish(note)
     setShowPublishConfirmation(true)
@@ -767,6 +1099,13 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     // Clean up the remote signer connection
     await cleanupSigner()
     
+    // Drop keys derived for decryption this session
+    cryptoService.clearKeys()
+    clearSelfEncryptionKeys()
+    resetJournalState()
+    clearGiftWrapState()
+    clearRelayList()
+    
     // IMPORTANT: Clear saved remote session
     if (authData.authMethod === 'remote') {
       localStorage.removeItem('nostr_remote_session')
@@ -794,31 +1133,46 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
 
     console.log("[NostrJournal] Deleting note:", noteToDelete.id, noteToDelete.title)
 
-    // Remove from local state immediately
-    const updatedNotes = notes.filter((note) => note.id !== noteToDelete.id)
-    setNotes(updatedNotes)
-
     if (selectedNote?.id === noteToDelete.id) {
       setSelectedNote(null)
     }
 
-    // LOCAL STORAGE DISABLED - Notes are only stored on Nostr relays
+    // Deleting from the trash is permanent
+    if (journalStore.trash && deletedNotes.some((entry) => entry.note.id === noteToDelete.id)) {
+      const result = await journalStore.trash.purge([noteToDelete.id], authData)
+      setDeletedNotes(journalStore.trash.list())
+      setShowDeleteConfirmation(false)
+      setNoteToDelete(null)
+      if (!result.success) {
+        console.error("[NostrJournal] ❌ Failed to delete from trash:", result.error)
+        setConnectionError(result.error || "Failed to delete from trash")
+        return
+      }
+      console.log("[NostrJournal] ✅ Note permanently deleted")
+      return
+    }
 
-    // Delete from relays using Kind 30001 model
-    if (noteToDelete.eventId) {
-      try {
-        const result = await deleteJournalKind30001(noteToDelete, authData)
-        if (result.success) {
-          console.log("[NostrJournal] ✅ Journal entry deleted from relays")
-        } else {
-          console.error("[NostrJournal] ❌ Failed to delete from relays:", result.error)
-        }
-      } catch (error) {
-        console.error("[NostrJournal] ❌ Error deleting from relays:", error)
+    setShowDeleteConfirmation(false)
+    setNoteToDelete(null)
+
+    // Backends with a trash move the entry there (hard-deleted after the retention period); the others delete it for good.
+    // The entry stays in the list until the store confirms, so a failed delete doesn't look like it worked.
+    try {
+      const result = await journalStore.delete(noteToDelete, authData)
+      if (!result.success) {
+        console.error("[NostrJournal] ❌ Failed to delete note:", result.error)
+        setConnectionError(result.error || "Failed to delete note")
+        return
       }
-    } else {
-      console.log("[NostrJournal] Note has no eventId, skipping relay deletion")
+    } catch (error) {
+      console.error("[NostrJournal] ❌ Error deleting note:", error)
+      setConnectionError(error instanceof Error ? error.message : "Failed to delete note")
+      return
     }
+    if (journalStore.trash) setDeletedNotes(journalStore.trash.list())
+
+    const updatedNotes = notes.filter((note) => note.id !== noteToDelete.id)
+    setNotes((prevNotes) => prevNotes.filter((note) => note.id !== noteToDelete.id))
 
     // Update tags
     const allTags = new Set<string>()
@@ -826,13 +1180,71 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
       note.tags.forEach((tag) => allTags.add(tag))
     })
     setTags(Array.from(allTags))
-
-    setShowDeleteConfirmation(false)
-    setNoteToDelete(null)
     
     console.log("[NostrJournal] ✅ Note deleted")
   }
 
+  const handleLegacyNotesMigrated = (migrated: DecryptedNote[]) => {
+    const migratedNotes = sanitizeNotes(migrated.map((note) => ({
+      ...note,
+      publishedToRelays: note.syncStatus !== "local",
+      isSynced: note.syncStatus !== "local",
+    })))
+    setNotes((prevNotes) => [...migratedNotes, ...prevNotes])
+    setTags((prevTags) => Array.from(new Set([...prevTags, ...migratedNotes.flatMap((note) => note.tags)])))
+    console.log("[NostrJournal] ✅ Imported", migratedNotes.length, "legacy notes")
+  }
+
+  const handleExportJournal = async () => {
+    try {
+      const exported = await journalStore.export(authData)
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `nostr-journal-${exported.backend}-${exported.exportedAt.slice(0, 10)}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+      console.log("[NostrJournal] 📦 Exported", exported.notes.length, "notes")
+    } catch (error) {
+      console.error("[NostrJournal] ❌ Failed to export journal:", error)
+      setConnectionError(error instanceof Error ? error.message : "Failed to export journal")
+    }
+  }
+
+  const handleRestoreNote = async (noteToRestore: Note) => {
+    console.log("[NostrJournal] Restoring note from trash:", noteToRestore.id)
+
+    if (!journalStore.trash) return
+    const result = await journalStore.trash.restore(noteToRestore.id, authData)
+    if (!result.success || !result.note) {
+      console.error("[NostrJournal] ❌ Failed to restore note:", result.error)
+      setConnectionError(result.error || "Failed to restore note")
+      return
+    }
+
+    const restoredNote: Note = {
+      ...noteToRestore,
+      eventId: result.note.eventId,
+      encryptionScheme: CURRENT_JOURNAL_ALGORITHM,
+      envelopeVersion: JOURNAL_ENVELOPE_VERSION,
+      publishedToRelays: true,
+      isSynced: true,
+    }
+    const updatedNotes = [restoredNote, ...notes.filter((note) => note.id !== restoredNote.id)]
+    setNotes(updatedNotes)
+    setDeletedNotes(journalStore.trash.list())
+    setSelectedNote(null)
+
+    const allTags = new Set<string>()
+    updatedNotes.forEach((note) => {
+      note.tags.forEach((tag) => allTags.add(tag))
+    })
+    setTags(Array.from(allTags))
+
+    console.log("[NostrJournal] ✅ Note restored")
+  }
+
   // Helper function to delete on Nostr asynchronously
   const deleteNoteOnNostrAsync = async (noteToDelete: Note, authData: any) => {
     try {
@@ -909,11 +1321,16 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     setShowPublishConfirmation(true)
   }
 
+  const trashedNotes: Note[] = deletedNotes.map((entry) => ({
+    ...entry.note,
+    lastModified: entry.note.lastModified || entry.note.createdAt,
+  }))
+
   const filteredNotes =
     selectedTag === "all"
       ? notes
       : selectedTag === "trash"
-        ? []
+        ? trashedNotes
         : notes.filter((note) => note.tags.includes(selectedTag || ""))
 
   // Sort notes by lastModified date (most recent first)
@@ -922,12 +1339,11 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
   )
 
   const getSyncStatusText = () => {
-    // PERMANENTLY DISABLED - Sync queue stats cause loading issues
-    // const queueText = syncQueueStats.queueLength > 0 ? ` (${syncQueueStats.queueLength} queued)` : '';
+    const queueText = syncQueueStats.queueLength > 0 ? ` (${syncQueueStats.queueLength} queued)` : ''
     
     switch (syncStatus) {
       case "synced":
-        return lastSyncTime ? `Synced ${lastSyncTime.toLocaleTimeString()}` : `Synced`
+        return (lastSyncTime ? `Synced ${lastSyncTime.toLocaleTimeString()}` : `Synced`) + queueText
       case "syncing":
         return `Syncing...`
       case "error":
@@ -938,10 +1354,9 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
   }
 
   const getSyncStatusIcon = () => {
-    // PERMANENTLY DISABLED - Sync queue stats cause loading issues
-    // if (syncQueueStats.processing || syncQueueStats.queueLength > 0) {
-    //   return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
-    // }
+    if (syncQueueStats.processing || syncQueueStats.queueLength > 0) {
+      return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
+    }
     
     switch (syncStatus) {
       case "synced":
@@ -962,8 +1377,8 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     setSyncStatus("syncing")
 
     try {
-      // Sync is just loading from Kind 30001 lists (same as app startup)
-      const relayNotes = await syncFromKind30001(authData)
+      // Sync is just loading from the journal store (same as app startup)
+      const relayNotes = await journalStore.load(authData)
       
       // Mark all relay notes as fetched from relays
       const notesWithSyncStatus = relayNotes.map(note => ({
@@ -979,6 +1394,7 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
       
       // Update state with latest notes from relays
       setNotes(validatedNotes)
+      refreshConflicts()
       
       // Update selected note if it exists in the refreshed notes
       if (selectedNote) {
@@ -1010,21 +1426,33 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
     }
   }
 
+  // Storage relays changed in the relay manager: drop the old connections, then
+  // load and watch the journal on the new relays (unsaved edits stay in the editor)
+  const handleJournalRelaysChanged = () => {
+    console.log("[NostrJournal] 🔄 Journal storage relays changed, reloading notes")
+    cleanupPool()
+    setJournalRelayGeneration((generation) => generation + 1)
+    handleManualRefresh()
+  }
+
   const handleManualRefresh = async () => {
     console.log("[NostrJournal] Manual refresh triggered")
     setIsRefreshing(true)
     
     try {
-      // Use the same logic as page load - fetch from Kind 30001 lists
-      const relayNotes = await loadJournalFromKind30001(authData)
+      // Use the same logic as page load - fetch from the journal store
+      const relayNotes = await journalStore.load(authData)
       console.log("[NostrJournal] ✅ Refreshed", relayNotes.length, "journal entries from Kind 30001 lists")
+      setOutdatedRelays(summarizeStaleRelays(getJournalLoadDiagnostics()?.staleVersions || []))
+      if (journalStore.trash) setDeletedNotes(journalStore.trash.list())
+      refreshConflicts()
       
       // Update notes with fetched data (set both sync statuses to true and ensure event IDs are present)
       const updatedNotes = relayNotes.map(note => ({
         ...note,
-        publishedToRelays: true,
-        fetchedFromRelays: true,
-        isSynced: true, // All notes fetched from relays are synced
+        publishedToRelays: note.syncStatus !== "local",
+        fetchedFromRelays: note.syncStatus !== "local",
+        isSynced: note.syncStatus !== "local", // "local" = saved offline, not yet on relays
         eventId: note.eventId || note.id // Ensure eventId is set (use note.id as fallback)
       }))
       
@@ -1174,7 +1602,7 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
   }, [authData.pubkey])
 
   if (isLoading) {
-    return <LoadingScreen isLoading={true} />
+    return <LoadingScreen isLoading={true} progress={loadProgress} />
   }
 
   return (
@@ -1213,10 +1641,72 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
               <div className="flex items-center gap-1">
                 {/* Sync status - Desktop */}
                 <div className="hidden md:flex items-center gap-2 px-3 py-1.5 rounded-lg bg-secondary/50 text-xs">
-                  <CheckCircle2 className="h-4 w-4 text-green-500" />
-                  <span className="text-muted-foreground">Events sync instantly</span>
+                  {syncQueueStats.queueLength > 0 ? (
+                    <>
+                      {getSyncStatusIcon()}
+                      <span className="text-muted-foreground" title="Edits waiting to be published; retried automatically">
+                        {syncQueueStats.queueLength} queued
+                      </span>
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      <span className="text-muted-foreground">Events sync instantly</span>
+                    </>
+                  )}
                 </div>
                 
+                {/* Older entries still being paged in from relays */}
+                {loadProgress && (
+                  <div
+                    className="flex items-center gap-2 text-xs text-muted-foreground"
+                    title={Object.entries(loadProgress.relays)
+                      .map(([relay, { status, events }]) => `${relay}: ${status} (${events})`)
+                      .join("\n")}
+                  >
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span className="hidden lg:inline">Loading older entries ({loadProgress.receivedEvents})…</span>
+                  </div>
+                )}
+                
+                {/* Relay out of date - some relay is serving older versions of entries */}
+                {outdatedRelays.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowDiagnostics(true)}
+                    className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400"
+                    title={outdatedRelays.map((r) => `${r.relay}: ${r.staleAddresses} outdated`).join("\n")}
+                  >
+                    <AlertCircle className="h-4 w-4" />
+                    <span className="hidden lg:inline">
+                      {outdatedRelays.length === 1 ? "1 relay out of date" : `${outdatedRelays.length} relays out of date`}
+                    </span>
+                  </Button>
+                )}
+                
+                {/* Edits from another device that need merging */}
+                {conflicts.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      const conflictedNote = notes.find((n) => conflicts.some((c) => c.noteId === n.id))
+                      if (conflictedNote) {
+                        setSelectedTag("all")
+                        setSelectedNote(conflictedNote)
+                      }
+                    }}
+                    className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400"
+                    title="Entries changed on another device while you edited them"
+                  >
+                    <AlertCircle className="h-4 w-4" />
+                    <span className="hidden lg:inline">
+                      {conflicts.length === 1 ? "1 edit conflict" : `${conflicts.length} edit conflicts`}
+                    </span>
+                  </Button>
+                )}
+                
                 {/* Manual refresh button - Desktop */}
                 <Button
                   variant="ghost"
@@ -1369,6 +1859,27 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
                           <span className="ml-auto text-xs">▶</span>
                         )}
                       </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        onClick={() => setShowSettings(true)}
+                        className="cursor-pointer"
+                      >
+                        <Settings className="w-4 h-4 mr-2" />
+                        Journal Settings
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        onClick={() => setShowLegacyMigration(true)}
+                        className="cursor-pointer"
+                      >
+                        <Import className="w-4 h-4 mr-2" />
+                        Import Legacy Notes
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        onClick={() => setShowDiagnostics(true)}
+                        className="cursor-pointer"
+                      >
+                        <Activity className="w-4 h-4 mr-2" />
+                        Diagnostics
+                      </DropdownMenuItem>
                     </DropdownMenuGroup>
                     
                     {/* Relays Submenu */}
@@ -1477,7 +1988,12 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
           <TagsPanel
             tags={tags}
             selectedTag={selectedTag}
-            onSelectTag={setSelectedTag}
+            onSelectTag={(tag) => {
+              setSelectedTag(tag)
+              setSelectedNote(null)
+            }}
+            trashCount={deletedNotes.length}
+            showTrash={!!journalStore.trash}
             pubkey={authData.pubkey}
             onLogout={handleLogout}
             onDonationClick={() => setShowDonationModal(true)}
@@ -1508,8 +2024,11 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
                     selectedTag={selectedTag}
                     onSelectTag={(tag) => {
                       setSelectedTag(tag)
+                      setSelectedNote(null)
                       setIsMobileSidebarOpen(false)
                     }}
+                    trashCount={deletedNotes.length}
+                    showTrash={!!journalStore.trash}
                     pubkey={authData.pubkey}
                     onLogout={handleLogout}
                     onDonationClick={() => {
@@ -1555,14 +2074,28 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
           </div>
 
             <div className="hidden lg:block flex-1">
+            {selectedTag === "trash" ? (
+              <TrashView
+                note={selectedNote}
+                trashedAt={deletedNotes.find((entry) => entry.note.id === selectedNote?.id)?.trashedAt}
+                retentionDays={getJournalSettings().trashRetentionDays}
+                onRestore={handleRestoreNote}
+                onDeletePermanently={handleDeleteNote}
+              />
+            ) : (
             <Editor
               note={selectedNote}
               onUpdateNote={handleUpdateNote}
               onPublishNote={handlePublishNote}
               onPublishHighlight={handlePublishHighlight}
               onDeleteNote={handleDeleteNote}
+              conflict={conflicts.find((c) => c.noteId === selectedNote?.id) || null}
+              onResolveConflict={handleResolveConflict}
+              remoteNote={incomingForEditor}
+              onApplyRemoteNote={handleApplyIncomingNote}
                 authData={authData}
             />
+            )}
           </div>
         </div>
 
@@ -1582,14 +2115,28 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
                 </Button>
               </div>
                 <div className="flex-1 overflow-hidden">
+              {selectedTag === "trash" ? (
+                <TrashView
+                  note={selectedNote}
+                  trashedAt={deletedNotes.find((entry) => entry.note.id === selectedNote.id)?.trashedAt}
+                  retentionDays={getJournalSettings().trashRetentionDays}
+                  onRestore={handleRestoreNote}
+                  onDeletePermanently={handleDeleteNote}
+                />
+              ) : (
               <Editor
                 note={selectedNote}
                 onUpdateNote={handleUpdateNote}
                 onPublishNote={handlePublishNote}
                 onPublishHighlight={handlePublishHighlight}
                 onDeleteNote={handleDeleteNote}
+                conflict={conflicts.find((c) => c.noteId === selectedNote.id) || null}
+                onResolveConflict={handleResolveConflict}
+                remoteNote={incomingForEditor}
+                onApplyRemoteNote={handleApplyIncomingNote}
                     authData={authData}
               />
+              )}
                 </div>
             </div>
           </div>
@@ -1608,32 +2155,51 @@ export function MainApp({ authData, onLogout }: MainAppProps) {
         {showPublishModal && <PublishModal eventId={publishedEventId} onClose={() => setShowPublishModal(false)} />}
 
         {showDeleteConfirmation && noteToDelete && (
-          <DeleteConfirmationModal note={noteToDelete} onConfirm={handleConfirmDelete} onCancel={handleCancelDelete} />
+          <DeleteConfirmationModal
+            note={noteToDelete}
+            onConfirm={handleConfirmDelete}
+            onCancel={handleCancelDelete}
+            retentionDays={
+              !journalStore.trash || deletedNotes.some((entry) => entry.note.id === noteToDelete.id)
+                ? undefined
+                : getJournalSettings().trashRetentionDays
+            }
+          />
         )}
 
         {showProfile && <ProfilePage authData={authData} onClose={() => setShowProfile(false)} />}
 
         {showRelayManager && (
           <RelayManager
+            authData={authData}
             onClose={() => setShowRelayManager(false)}
             onSave={(relays) => {
               console.log("[NostrJournal] 🔄 Relays updated:", relays)
               setShowRelayManager(false)
-              // Clear relay cache to force reload
-              localStorage.removeItem("nostr_user_relays")
             }}
+            onJournalRelaysChanged={handleJournalRelaysChanged}
+          />
+        )}
+
+        {showSettings && <JournalSettingsModal onClose={() => setShowSettings(false)} onExport={handleExportJournal} />}
+        {showLegacyMigration && (
+          <LegacyMigrationWizard
+            authData={authData}
+            existingNotes={notes}
+            onMigrated={handleLegacyNotesMigrated}
+            onClose={() => setShowLegacyMigration(false)}
           />
         )}
 
         {showDiagnostics && (
           <div className="fixed inset-0 z-50 bg-background">
             <div className="flex items-center justify-between p-4 border-b">
-              <h2 className="text-lg font-semibold">Connection Diagnostics</h2>
+              <h2 className="text-lg font-semibold">Diagnostics</h2>
               <Button onClick={() => setShowDiagnostics(false)} variant="ghost" size="sm">
                 <X className="w-4 h-4" />
               </Button>
       </div>
-            <DiagnosticPage />
+            <JournalDiagnostics authData={authData} />
           </div>
         )}
 
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { mergeJournalText, hasConflictMarkers, type JournalConflict, type JournalVersion } from "@/lib/journal-conflicts"
+import { AlertCircle, Loader2, GitMerge } from "lucide-react"
+
+interface MergeViewProps {
+  conflict: JournalConflict
+  onResolve: (resolution: "remote" | JournalVersion) => Promise<void>
+}
+
+function VersionColumn({ label, version }: { label: string; version?: JournalVersion }) {
+  return (
+    <div className="flex flex-col min-h-0 border border-border rounded-lg overflow-hidden">
+      <div className="px-3 py-2 text-xs font-medium text-muted-foreground bg-muted/30 border-b border-border">{label}</div>
+      {version ? (
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          <div className="font-semibold text-foreground">{version.title || "Untitled Note"}</div>
+          <div className="whitespace-pre-wrap break-words text-sm text-foreground/80">{version.content}</div>
+        </div>
+      ) : (
+        <div className="p-3 text-xs text-muted-foreground">No longer available</div>
+      )}
+    </div>
+  )
+}
+
+export default function MergeView({ conflict, onResolve }: MergeViewProps) {
+  const { base, local, remote } = conflict
+  // Take the other device's title only if this device left it unchanged
+  const [title, setTitle] = useState(() => (base && local.title === base.title ? remote.title : local.title))
+  const [content, setContent] = useState(() => mergeJournalText(base?.content ?? "", local.content, remote.content).merged)
+  const [isResolving, setIsResolving] = useState(false)
+
+  const unresolved = hasConflictMarkers(content)
+
+  const resolve = async (resolution: "remote" | JournalVersion) => {
+    setIsResolving(true)
+    try {
+      await onResolve(resolution)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const mergedTags = Array.from(new Set([...local.tags, ...remote.tags]))
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b border-border px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-amber-500/10">
+        <div className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            This entry was changed on another device ({new Date(remote.createdAt * 1000).toLocaleString()}) after the
+            version you edited. Your changes have not been saved over it.
+          </span>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Button onClick={() => resolve(local)} disabled={isResolving} variant="outline" size="sm" className="h-8 text-xs">
+            Keep mine
+          </Button>
+          <Button onClick={() => resolve("remote")} disabled={isResolving} variant="outline" size="sm" className="h-8 text-xs">
+            Keep theirs
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4 max-h-[40%] min-h-0">
+        <VersionColumn label="Original" version={base} />
+        <VersionColumn label="This device" version={local} />
+        <VersionColumn label="Other device" version={remote} />
+      </div>
+
+      <div className="flex-1 flex flex-col min-h-0 border-t border-border px-4 py-3 gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium text-muted-foreground">Merged version</span>
+          {unresolved && (
+            <span className="text-xs text-amber-600 dark:text-amber-400">
+              Edit the marked sections and remove the conflict markers to save
+            </span>
+          )}
+        </div>
+        <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Note title..." />
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="flex-1 font-mono text-sm resize-none"
+        />
+        <div className="flex justify-end">
+          <Button
+            onClick={() => resolve({ title, content, tags: mergedTags })}
+            disabled={isResolving || unresolved}
+            size="sm"
+          >
+            {isResolving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitMerge className="w-4 h-4 mr-2" />}
+            Save merged version
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -118,7 +118,7 @@ export default function NoteList({ notes, selectedNote, onSelectNote, onCreateNo
                     {getSyncIcon(note)}
                   </div>
                   <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
-                    {note.content || "No content yet..."}
+                    {note.unreadableReason ? "Unreadable by this version" : note.content || "No content yet..."}
                   </p>
                   <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
                     <div className="flex items-center gap-2">
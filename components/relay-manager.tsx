@@ -1,10 +1,19 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Plus, Trash2, X } from "lucide-react"
+import { Plus, Trash2, X, Loader2, Upload, AlertCircle, AlertTriangle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { getRelays as getRelaysFromManager, getDefaultRelays, saveRelays } from "@/lib/relay-manager"
+import {
+  getRelays as getRelaysFromManager,
+  getDefaultRelays,
+  saveRelays,
+  getJournalStorageRelays,
+  saveJournalStorageRelays,
+  getPublicJournalRelays,
+  getPublicRelayCandidates,
+} from "@/lib/relay-manager"
+import { getActiveRelayList, publishRelayList, type RelayListEntry } from "@/lib/relay-list"
 
 const DEFAULT_RELAYS = ["wss://relay.nsec.app", "wss://relay.damus.io", "wss://nos.lol", "wss://relay.nostr.band"]
 
@@ -12,14 +21,29 @@ interface RelayManagerProps {
   onClose?: () => void
   onSave?: (relays: string[]) => void
   initialRelays?: string[]
+  authData?: any // Needed to publish the relay list (NIP-65)
+  onJournalRelaysChanged?: () => void // The journal has to be loaded again from its new relays
 }
 
-export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerProps) {
+export function RelayManager({ onClose, onSave, initialRelays, authData, onJournalRelaysChanged }: RelayManagerProps) {
   const [relays, setRelays] = useState<string[]>([])
   const [newRelay, setNewRelay] = useState("")
+  // Read/write markers by relay URL; relays without one are used for both
+  const [markers, setMarkers] = useState<Record<string, { read: boolean; write: boolean }>>({})
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [publishError, setPublishError] = useState<string | null>(null)
+  // Private relays for the encrypted journal; empty means it shares the relays above
+  const [savedJournalRelays] = useState(() => getJournalStorageRelays() || [])
+  const [journalRelays, setJournalRelays] = useState<string[]>(savedJournalRelays)
+  const [newJournalRelay, setNewJournalRelay] = useState("")
 
   useEffect(() => {
-    if (initialRelays && initialRelays.length > 0) {
+    // The published relay list (kind 10002) is the user's real configuration
+    const relayList = getActiveRelayList()
+    if ((!initialRelays || initialRelays.length === 0) && relayList && relayList.entries.length > 0) {
+      setRelays(relayList.entries.map((entry) => entry.url))
+      setMarkers(Object.fromEntries(relayList.entries.map((entry) => [entry.url, { read: entry.read, write: entry.write }])))
+    } else if (initialRelays && initialRelays.length > 0) {
       // Handle both string arrays and Relay objects
       const relayUrls = initialRelays.map(relay => 
         typeof relay === 'string' ? relay : relay.url
@@ -48,16 +72,23 @@ export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerPro
     }
   }, [initialRelays])
 
-  const handleAddRelay = () => {
-    if (!newRelay.trim()) return
-    if (!newRelay.startsWith("wss://") && !newRelay.startsWith("ws://")) {
+  const getMarker = (relay: string) => markers[relay] || { read: true, write: true }
+
+  const isValidNewRelay = (relay: string, list: string[]) => {
+    if (!relay.startsWith("wss://") && !relay.startsWith("ws://")) {
       alert("Relay URL must start with wss:// or ws://")
-      return
+      return false
     }
-    if (relays.includes(newRelay)) {
+    if (list.includes(relay)) {
       alert("This relay is already in your list")
-      return
+      return false
     }
+    return true
+  }
+
+  const handleAddRelay = () => {
+    if (!newRelay.trim()) return
+    if (!isValidNewRelay(newRelay, relays)) return
     setRelays([...relays, newRelay])
     setNewRelay("")
   }
@@ -66,7 +97,47 @@ export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerPro
     setRelays(relays.filter((r) => r !== relay))
   }
 
+  const handleAddJournalRelay = () => {
+    const relay = newJournalRelay.trim()
+    if (!relay) return
+    if (!isValidNewRelay(relay, journalRelays)) return
+    setJournalRelays([...journalRelays, relay])
+    setNewJournalRelay("")
+  }
+
+  // Relays that also carry public posts: write relays above, or any public default without a published list
+  const publicRelays = [
+    ...relays.filter((relay) => getMarker(relay).write),
+    ...(getActiveRelayList() ? [] : getPublicRelayCandidates()),
+  ]
+  const sharedJournalRelays = getPublicJournalRelays(journalRelays, publicRelays)
+
+
+  const toggleMarker = (relay: string, marker: "read" | "write") => {
+    const current = getMarker(relay)
+    setMarkers({ ...markers, [relay]: { ...current, [marker]: !current[marker] } })
+  }
+
+  const handlePublish = async () => {
+    const entries: RelayListEntry[] = relays.map((url) => ({ url, ...getMarker(url) }))
+    setIsPublishing(true)
+    setPublishError(null)
+    try {
+      await publishRelayList(entries, authData)
+      // Without journal storage relays the journal follows the list, so live sync has to move too
+      if (journalRelays.length === 0 && savedJournalRelays.length === 0) onJournalRelaysChanged?.()
+      handleSave()
+    } catch (error) {
+      console.error("[RelayManager] ❌ Failed to publish relay list:", error)
+      setPublishError(error instanceof Error ? error.message : "Failed to publish relay list")
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
   const handleSave = () => {
+    saveJournalStorageRelays(journalRelays)
+
     // Convert string array back to Relay objects for login page compatibility
     const relayObjects = relays.map(url => ({
       url,
@@ -83,6 +154,9 @@ export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerPro
     if (onSave) {
       onSave(relays)
     }
+    if (journalRelays.join() !== savedJournalRelays.join()) {
+      onJournalRelaysChanged?.()
+    }
     if (onClose) {
       onClose()
     }
@@ -90,6 +164,7 @@ export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerPro
 
   const handleReset = () => {
     setRelays(getDefaultRelays())
+    setMarkers({})
   }
 
   return (
@@ -104,13 +179,29 @@ export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerPro
           )}
         </div>
 
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-foreground">Your Relays</label>
+            <label className="block text-sm font-medium text-foreground">Publish Relays</label>
+            <p className="text-xs text-muted-foreground">Public posts and highlights go here.</p>
             <div className="space-y-2 max-h-64 overflow-y-auto">
               {relays.map((relay) => (
                 <div key={relay} className="flex items-center gap-2 bg-muted rounded-lg px-3 py-2">
                   <span className="flex-1 text-sm text-foreground font-mono truncate">{relay}</span>
+                  {(["read", "write"] as const).map((marker) => (
+                    <button
+                      key={marker}
+                      type="button"
+                      onClick={() => toggleMarker(relay, marker)}
+                      className={`text-xs px-1.5 py-0.5 rounded border ${
+                        getMarker(relay)[marker]
+                          ? "border-primary text-primary bg-primary/10"
+                          : "border-border text-muted-foreground"
+                      }`}
+                      title={marker === "read" ? "Load from this relay" : "Publish to this relay"}
+                    >
+                      {marker === "read" ? "Read" : "Write"}
+                    </button>
+                  ))}
                   <Button
                     onClick={() => handleRemoveRelay(relay)}
                     variant="ghost"
@@ -145,6 +236,87 @@ export function RelayManager({ onClose, onSave, initialRelays }: RelayManagerPro
             </div>
           </div>
 
+          {authData && (
+            <div className="space-y-2">
+              <Button
+                onClick={handlePublish}
+                disabled={isPublishing || relays.length === 0}
+                variant="outline"
+                className="w-full border-border text-foreground hover:bg-muted bg-transparent"
+              >
+                {isPublishing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Save and publish relay list (NIP-65)
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Other Nostr apps use your published list to find you. Read relays are loaded from, write relays are
+                published to. Journal storage relays are never part of it.
+              </p>
+              {publishError && (
+                <div className="flex items-center gap-2 text-xs text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {publishError}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2 border-t border-border pt-4">
+            <label className="block text-sm font-medium text-foreground">Journal Storage Relays</label>
+            <p className="text-xs text-muted-foreground">
+              Private relays (for example a paid or personal one) for your encrypted journal. Leave empty to keep the
+              journal on your publish relays. Existing entries are not moved; use Relay Repair in Diagnostics to copy
+              them.
+            </p>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {journalRelays.map((relay) => (
+                <div key={relay} className="flex items-center gap-2 bg-muted rounded-lg px-3 py-2">
+                  <span className="flex-1 text-sm text-foreground font-mono truncate">{relay}</span>
+                  <Button
+                    onClick={() => setJournalRelays(journalRelays.filter((r) => r !== relay))}
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                value={newJournalRelay}
+                onChange={(e) => setNewJournalRelay(e.target.value)}
+                placeholder="wss://private.relay.example"
+                className="flex-1 bg-muted border-border text-foreground"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    handleAddJournalRelay()
+                  }
+                }}
+              />
+              <Button onClick={handleAddJournalRelay} className="bg-primary hover:bg-primary/90 text-primary-foreground">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {journalRelays.length === 0 ? (
+              <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                Your encrypted journal is stored on the same relays as your public posts.
+              </div>
+            ) : (
+              sharedJournalRelays.length > 0 && (
+                <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <span>
+                    Also used for public posts: {sharedJournalRelays.join(", ")}. Your encrypted entries will sit next
+                    to your public activity there.
+                  </span>
+                </div>
+              )
+            )}
+          </div>
+
           <div className="flex gap-2 pt-4">
             <Button
               onClick={handleReset}
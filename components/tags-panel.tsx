@@ -1,6 +1,6 @@
 "use client"
 
-import { Inbox, Hash } from "lucide-react"
+import { Inbox, Hash, Trash2 } from "lucide-react"
 import UserMenu from "@/components/user-menu"
 import DonationBubble from "@/components/donation-bubble"
 
@@ -11,9 +11,20 @@ interface TagsPanelProps {
   pubkey?: string
   onLogout?: () => void
   onDonationClick?: () => void
+  trashCount?: number
+  showTrash?: boolean // False for storage backends without a trash
 }
 
-export default function TagsPanel({ tags, selectedTag, onSelectTag, pubkey, onLogout, onDonationClick }: TagsPanelProps) {
+export default function TagsPanel({
+  tags,
+  selectedTag,
+  onSelectTag,
+  pubkey,
+  onLogout,
+  onDonationClick,
+  trashCount = 0,
+  showTrash = true,
+}: TagsPanelProps) {
   return (
     <div className="w-64 bg-white dark:bg-card border-r border-border flex flex-col h-full">
       {pubkey && onLogout && (
@@ -35,6 +46,21 @@ export default function TagsPanel({ tags, selectedTag, onSelectTag, pubkey, onLo
           All Notes
         </button>
 
+        {showTrash && (
+          <button
+            onClick={() => onSelectTag("trash")}
+            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors hover:bg-secondary ${
+              selectedTag === "trash"
+                ? "bg-primary/10 text-primary font-medium"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            <Trash2 className="w-4 h-4" />
+            Trash
+            {trashCount > 0 && <span className="ml-auto text-xs text-muted-foreground">{trashCount}</span>}
+          </button>
+        )}
+
       </div>
 
       <div className="px-4 py-2">
@@ -0,0 +1,77 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import type { Note } from "@/components/main-app"
+import { RotateCcw, Trash2, Loader2 } from "lucide-react"
+
+interface TrashViewProps {
+  note: Note | null
+  trashedAt?: number // unix seconds
+  retentionDays: number
+  onRestore: (note: Note) => Promise<void>
+  onDeletePermanently: (note: Note) => void
+}
+
+export default function TrashView({ note, trashedAt, retentionDays, onRestore, onDeletePermanently }: TrashViewProps) {
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  if (!note) {
+    return (
+      <div className="h-full flex items-center justify-center text-muted-foreground text-sm p-6 text-center">
+        Deleted notes stay here for {retentionDays} days before they are permanently deleted.
+      </div>
+    )
+  }
+
+  const purgeDate = trashedAt ? new Date((trashedAt + retentionDays * 24 * 60 * 60) * 1000) : null
+
+  const handleRestore = async () => {
+    setIsRestoring(true)
+    try {
+      await onRestore(note)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b border-border px-6 py-3 flex items-center justify-between gap-4 bg-muted/30">
+        <div className="text-xs text-muted-foreground">
+          {purgeDate ? `In trash - permanently deleted on ${purgeDate.toLocaleDateString()}` : "In trash"}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={handleRestore} disabled={isRestoring} variant="outline" size="sm" className="h-8 text-xs">
+            {isRestoring ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+            Restore
+          </Button>
+          <Button
+            onClick={() => onDeletePermanently(note)}
+            disabled={isRestoring}
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Delete permanently
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        <h1 className="text-2xl font-semibold text-foreground">{note.title || "Untitled Note"}</h1>
+        {note.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {note.tags.map((tag) => (
+              <span key={tag} className="px-2 py-1 bg-secondary text-muted-foreground rounded text-xs">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="whitespace-pre-wrap break-words text-foreground/80">{note.content || "No content"}</div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * Addressable Events - NIP-01 resolution for parameterized replaceable events
+ * Several relays can return several versions of the same `kind:pubkey:d`
+ * address; only the newest one is the current state of the entry.
+ */
+
+export interface StaleRelayVersion {
+  relay: string
+  address: string
+  staleEventId: string
+  staleCreatedAt: number
+  latestEventId: string
+  latestCreatedAt: number
+}
+
+export interface AddressableResolution<T> {
+  latest: T[]
+  staleVersions: StaleRelayVersion[]
+}
+
+interface AddressableEvent {
+  id: string
+  kind: number
+  pubkey: string
+  created_at: number
+  tags: string[][]
+}
+
+/**
+ * Build the NIP-01 address (`kind:pubkey:d`) of an event
+ */
+export function getEventAddress(event: AddressableEvent): string {
+  const dTag = event.tags.find((tag) => tag[0] === "d")?.[1] || ""
+  return `${event.kind}:${event.pubkey}:${dTag}`
+}
+
+/**
+ * NIP-01 ordering: newest created_at wins, ties go to the lowest id
+ */
+export function isNewerVersion(candidate: AddressableEvent, current: AddressableEvent): boolean {
+  if (candidate.created_at !== current.created_at) {
+    return candidate.created_at > current.created_at
+  }
+  return candidate.id < current.id
+}
+
+/**
+ * Keep only the newest version of every address and report relays that
+ * served an older version without also serving the newest one
+ */
+export function resolveAddressableEvents<T extends AddressableEvent>(
+  events: T[],
+  getSeenOn: (eventId: string) => string[] = () => [],
+): AddressableResolution<T> {
+  const latestByAddress = new Map<string, T>()
+  const versionsByAddress = new Map<string, T[]>()
+
+  for (const event of events) {
+    const address = getEventAddress(event)
+    const versions = versionsByAddress.get(address) || []
+    if (!versions.some((version) => version.id === event.id)) {
+      versions.push(event)
+    }
+    versionsByAddress.set(address, versions)
+
+    const current = latestByAddress.get(address)
+    if (!current || isNewerVersion(event, current)) {
+      latestByAddress.set(address, event)
+    }
+  }
+
+  const staleVersions: StaleRelayVersion[] = []
+  versionsByAddress.forEach((versions, address) => {
+    const latest = latestByAddress.get(address)!
+    const relaysWithLatest = new Set(getSeenOn(latest.id))
+
+    for (const version of versions) {
+      if (version.id === latest.id) continue
+      for (const relay of getSeenOn(version.id)) {
+        if (relaysWithLatest.has(relay)) continue
+        staleVersions.push({
+          relay,
+          address,
+          staleEventId: version.id,
+          staleCreatedAt: version.created_at,
+          latestEventId: latest.id,
+          latestCreatedAt: latest.created_at,
+        })
+      }
+    }
+  })
+
+  return { latest: Array.from(latestByAddress.values()), staleVersions }
+}
+
+/**
+ * Relays that are behind on at least one address, with how many addresses
+ */
+export function summarizeStaleRelays(staleVersions: StaleRelayVersion[]): { relay: string; staleAddresses: number }[] {
+  const addressesByRelay = new Map<string, Set<string>>()
+  for (const stale of staleVersions) {
+    const addresses = addressesByRelay.get(stale.relay) || new Set<string>()
+    addresses.add(stale.address)
+    addressesByRelay.set(stale.relay, addresses)
+  }
+  return Array.from(addressesByRelay.entries()).map(([relay, addresses]) => ({ relay, staleAddresses: addresses.size }))
+}
@@ -0,0 +1,137 @@
+"use client"
+
+/**
+ * Crypto Service - main-thread client for the crypto worker
+ * Decrypt requests made within one task are sent to the worker as one batch.
+ * Where workers are unavailable, the same batches run on the main thread with
+ * the same per-session key cache.
+ */
+
+import { decryptPbkdf2Batch, type DerivedKeyCache, type Pbkdf2DecryptRequest, type Pbkdf2DecryptResult } from "./pbkdf2-decrypt"
+
+export type CryptoWorkerRequest =
+  | { type: "decrypt-batch"; batchId: number; requests: Pbkdf2DecryptRequest[] }
+  | { type: "clear-keys" }
+
+export interface CryptoWorkerResponse {
+  batchId: number
+  results: Pbkdf2DecryptResult[]
+}
+
+interface QueuedRequest {
+  request: Pbkdf2DecryptRequest
+  resolve: (plaintext: string) => void
+  reject: (error: Error) => void
+}
+
+class CryptoService {
+  private worker: Worker | null = null
+  private workerFailed = false
+  private fallbackKeyCache: DerivedKeyCache = new Map()
+  private queue: QueuedRequest[] = []
+  private flushScheduled = false
+  private nextBatchId = 1
+  private inFlight = new Map<number, QueuedRequest[]>()
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker
+    if (typeof window === "undefined" || typeof Worker === "undefined") return null
+
+    try {
+      this.worker = new Worker(new URL("./crypto-worker.ts", import.meta.url), { type: "module" })
+      this.worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => this.settleBatch(event.data)
+      this.worker.onerror = (event) => {
+        console.error("[CryptoService] ❌ Crypto worker failed, decrypting on the main thread:", event.message)
+        this.abandonWorker()
+      }
+      console.log("[CryptoService] 🧵 Crypto worker started")
+    } catch (error) {
+      console.warn("[CryptoService] ⚠️ Could not start crypto worker, decrypting on the main thread:", error)
+      this.workerFailed = true
+    }
+    return this.worker
+  }
+
+  // Stop using the worker and rerun whatever it still owed on the main thread
+  private abandonWorker(): void {
+    this.worker?.terminate()
+    this.worker = null
+    this.workerFailed = true
+
+    const owed = Array.from(this.inFlight.values()).flat()
+    this.inFlight.clear()
+    if (owed.length > 0) this.runOnMainThread(owed)
+  }
+
+  private settleBatch({ batchId, results }: CryptoWorkerResponse): void {
+    const batch = this.inFlight.get(batchId)
+    if (!batch) return
+    this.inFlight.delete(batchId)
+
+    batch.forEach((queued, index) => {
+      const result = results[index]
+      if (result?.ok) {
+        queued.resolve(result.plaintext)
+      } else {
+        queued.reject(new Error(result?.error || "Decryption failed"))
+      }
+    })
+  }
+
+  private async runOnMainThread(batch: QueuedRequest[]): Promise<void> {
+    const batchId = this.nextBatchId++
+    this.inFlight.set(batchId, batch)
+    const results = await decryptPbkdf2Batch(
+      batch.map((queued) => queued.request),
+      this.fallbackKeyCache,
+    )
+    this.settleBatch({ batchId, results })
+  }
+
+  private flush(): void {
+    this.flushScheduled = false
+    const batch = this.queue
+    this.queue = []
+    if (batch.length === 0) return
+
+    const worker = this.getWorker()
+    if (!worker) {
+      this.runOnMainThread(batch)
+      return
+    }
+
+    const batchId = this.nextBatchId++
+    this.inFlight.set(batchId, batch)
+    const message: CryptoWorkerRequest = {
+      type: "decrypt-batch",
+      batchId,
+      requests: batch.map((queued) => queued.request),
+    }
+    worker.postMessage(message)
+  }
+
+  /**
+   * Decrypt a PBKDF2 / AES-256-GCM payload. Rejects when the key does not fit.
+   */
+  decryptPbkdf2(request: Pbkdf2DecryptRequest): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, resolve, reject })
+      if (!this.flushScheduled) {
+        this.flushScheduled = true
+        // A macrotask, so requests from a whole Promise.all of events make one batch
+        setTimeout(() => this.flush(), 0)
+      }
+    })
+  }
+
+  /**
+   * Forget every derived key (on logout)
+   */
+  clearKeys(): void {
+    this.fallbackKeyCache.clear()
+    const message: CryptoWorkerRequest = { type: "clear-keys" }
+    this.worker?.postMessage(message)
+  }
+}
+
+export const cryptoService = new CryptoService()
@@ -0,0 +1,27 @@
+/**
+ * Crypto Worker - decrypts batches of legacy journal payloads off the main thread
+ * Derived keys live in this worker for its lifetime (one session).
+ */
+
+import { decryptPbkdf2Batch, type DerivedKeyCache } from "./pbkdf2-decrypt"
+import type { CryptoWorkerRequest, CryptoWorkerResponse } from "./crypto-service"
+
+// The tsconfig only carries DOM typings, so describe the bits of the worker scope used here
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<CryptoWorkerRequest>) => void) | null
+  postMessage: (message: CryptoWorkerResponse) => void
+}
+
+const keyCache: DerivedKeyCache = new Map()
+
+workerScope.onmessage = async (event) => {
+  const message = event.data
+
+  if (message.type === "clear-keys") {
+    keyCache.clear()
+    return
+  }
+
+  const results = await decryptPbkdf2Batch(message.requests, keyCache)
+  workerScope.postMessage({ batchId: message.batchId, results })
+}
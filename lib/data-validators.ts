@@ -33,10 +33,15 @@ export function sanitizeNote(note: any): Note | null {
       syncError: note.syncError,
       // Preserve new sync properties
       eventId: note.eventId,
+      eventCreatedAt: note.eventCreatedAt,
       eventKind: note.eventKind,
       isSynced: note.isSynced,
       publishedToRelays: note.publishedToRelays,
       fetchedFromRelays: note.fetchedFromRelays,
+      encryptionScheme: note.encryptionScheme,
+      envelopeVersion: note.envelopeVersion,
+      unreadableReason: note.unreadableReason,
+      relayReceipts: note.relayReceipts,
     }
   } catch (error) {
     console.error("[Validator] Error sanitizing note:", error)
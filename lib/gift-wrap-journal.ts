@@ -0,0 +1,356 @@
+"use client"
+
+/**
+ * Gift-Wrapped Journal - Entries stored as NIP-59 gift wraps (kind 1059)
+ * Each entry is an unsigned rumor, sealed (kind 13) by the user and wrapped by
+ * a throwaway key, so relays only see a random pubkey writing to the user at a
+ * backdated time. The throwaway key travels inside the rumor, so the wrap can
+ * still be deleted when its entry is replaced or deleted.
+ */
+
+import { finalizeEvent, generateSecretKey, getEventHash, verifyEvent, nip44, type Event } from "nostr-tools"
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils"
+import type { DecryptedNote } from "./nostr-crypto"
+import { signEventWithRemote } from "./signer-manager"
+import { nip44EncryptToSelf, nip44DecryptFromSelf, nip44DecryptFrom } from "./self-encryption"
+import { getEventAddress, isNewerVersion } from "./addressable-events"
+import {
+  getSignerPubkey,
+  getJournalReadRelays,
+  publishThroughOutbox,
+  subscribeWithReconnect,
+  fetchAllPages,
+  type JournalSaveResult,
+  type JournalChangeHandlers,
+} from "./kind30001-journal"
+import { padPayload } from "./journal-padding"
+import { getJournalSettings } from "./journal-settings"
+
+const GIFT_WRAP_KIND = 1059 // NIP-59 gift wrap
+const SEAL_KIND = 13 // NIP-59 seal
+const DELETION_KIND = 5 // NIP-09 deletion events
+const ENTRY_RUMOR_KIND = 30078 // NIP-78, as in the regular journal; only ever published inside a wrap
+const ENTRY_D_TAG_PREFIX = "nostr-journal/entry/"
+
+// NIP-59: seals and wraps are backdated by up to two days, so they don't tell when an entry was written
+const TIMESTAMP_JITTER_SECONDS = 2 * 24 * 60 * 60
+
+// Unsigned event inside a seal; only the user can read it
+interface Rumor {
+  id: string
+  pubkey: string
+  created_at: number
+  kind: number
+  tags: string[][]
+  content: string
+}
+
+interface UnwrappedRumor {
+  wrap: Event
+  rumor: Rumor
+  wrapKey?: string // Throwaway key of the wrap (hex), carried by entry rumors
+}
+
+// Opened wraps by wrap id; null for wraps that aren't journal rumors (e.g. NIP-17 messages).
+// Wraps are immutable, so each is unwrapped once a session.
+const unwrapped = new Map<string, UnwrappedRumor | null>()
+
+// Wraps holding each entry's versions, newest first, by note id
+const entryWraps = new Map<string, UnwrappedRumor[]>()
+
+// Newest wrapped deletion per entry address
+const deletedAddresses = new Map<string, number>()
+
+function backdatedTimestamp(): number {
+  return Math.floor(Date.now() / 1000) - Math.floor(Math.random() * TIMESTAMP_JITTER_SECONDS)
+}
+
+function getEntryAddress(pubkey: string, noteId: string): string {
+  return `${ENTRY_RUMOR_KIND}:${pubkey}:${ENTRY_D_TAG_PREFIX}${noteId}`
+}
+
+function getRumorNoteId(rumor: Rumor): string | null {
+  const dTag = rumor.tags.find((tag) => tag[0] === "d")?.[1]
+  return dTag?.startsWith(ENTRY_D_TAG_PREFIX) ? dTag.slice(ENTRY_D_TAG_PREFIX.length) : null
+}
+
+function isJournalRumor(rumor: Rumor): boolean {
+  if (rumor.kind === ENTRY_RUMOR_KIND) return getRumorNoteId(rumor) !== null
+  const entryAddressPrefix = `${ENTRY_RUMOR_KIND}:${rumor.pubkey}:${ENTRY_D_TAG_PREFIX}`
+  return rumor.kind === DELETION_KIND && rumor.tags.some((tag) => tag[0] === "a" && tag[1]?.startsWith(entryAddressPrefix))
+}
+
+function createRumor(kind: number, tags: string[][], content: string, pubkey: string): Rumor {
+  const rumor = { kind, created_at: Math.floor(Date.now() / 1000), tags, content, pubkey }
+  return { ...rumor, id: getEventHash(rumor) }
+}
+
+/**
+ * Seal a rumor with the user's key and wrap it with a throwaway key
+ */
+async function wrapRumor(rumor: Rumor, wrapKey: Uint8Array, authData: any, pubkey: string): Promise<Event> {
+  const seal = await signEventWithRemote(
+    {
+      kind: SEAL_KIND,
+      created_at: backdatedTimestamp(),
+      tags: [],
+      // The rumor is JSON, so the padding needs no stripping when it is parsed
+      content: await nip44EncryptToSelf(padPayload(JSON.stringify(rumor), getJournalSettings().paddingPolicy), authData, pubkey),
+      pubkey,
+    },
+    authData,
+  )
+  const conversationKey = nip44.v2.utils.getConversationKey(wrapKey, pubkey)
+  return finalizeEvent(
+    {
+      kind: GIFT_WRAP_KIND,
+      created_at: backdatedTimestamp(),
+      tags: [["p", pubkey]],
+      content: nip44.v2.encrypt(JSON.stringify(seal), conversationKey),
+    },
+    wrapKey,
+  )
+}
+
+/**
+ * Open a gift wrap addressed to the user. Null for anything but journal rumors
+ * sealed by the user - anyone can send the user a wrap.
+ */
+async function unwrap(wrap: Event, authData: any, pubkey: string): Promise<UnwrappedRumor | null> {
+  const known = unwrapped.get(wrap.id)
+  if (known !== undefined) return known
+  if (!verifyEvent(wrap)) return null
+
+  const seal: Event = JSON.parse(await nip44DecryptFrom(wrap.content, authData, wrap.pubkey))
+  let opened: UnwrappedRumor | null = null
+  if (seal.kind === SEAL_KIND && seal.pubkey === pubkey && verifyEvent(seal)) {
+    const rumor: Rumor = JSON.parse(await nip44DecryptFromSelf(seal.content, authData, pubkey))
+    if (rumor.pubkey === pubkey && isJournalRumor(rumor)) {
+      const wrapKey = rumor.kind === ENTRY_RUMOR_KIND ? JSON.parse(rumor.content).wrapKey : undefined
+      opened = { wrap, rumor, wrapKey }
+    }
+  }
+  unwrapped.set(wrap.id, opened)
+  return opened
+}
+
+function toNote({ wrap, rumor }: UnwrappedRumor): DecryptedNote {
+  const { note } = JSON.parse(rumor.content)
+  return {
+    ...note,
+    createdAt: new Date(note.createdAt),
+    lastModified: new Date(note.lastModified || note.createdAt),
+    eventId: wrap.id,
+    eventCreatedAt: rumor.created_at,
+    lastSynced: new Date(),
+    syncStatus: "synced",
+  }
+}
+
+/**
+ * Publish through the journal outbox, queued under the user's pubkey (wraps and
+ * their deletions are signed by throwaway keys). Relays that miss it are retried.
+ */
+function publish(event: Event, authData: any, owner: string, noteId?: string) {
+  return publishThroughOutbox(event, authData, { owner, noteId })
+}
+
+/**
+ * Ask relays to drop wraps, each with a deletion signed by the wrap's own key
+ */
+async function deleteWraps(wraps: UnwrappedRumor[], authData: any, owner: string): Promise<void> {
+  for (const { wrap, wrapKey } of wraps) {
+    if (!wrapKey) continue
+    const deletion = finalizeEvent(
+      {
+        kind: DELETION_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [
+          ["e", wrap.id],
+          ["k", String(GIFT_WRAP_KIND)],
+        ],
+        content: "",
+      },
+      hexToBytes(wrapKey),
+    )
+    // Harmless if relays keep it: the newer rumor (or the wrapped deletion) still wins when loading
+    const { accepted } = await publish(deletion, authData, owner)
+    if (!accepted) console.warn("[GiftWrapJournal] ⚠️ Wrap deletion not accepted yet, left in the outbox:", wrap.id)
+  }
+}
+
+/**
+ * Record an opened rumor. Returns the wraps it made obsolete.
+ */
+function applyRumor(opened: UnwrappedRumor): UnwrappedRumor[] {
+  const { rumor } = opened
+
+  if (rumor.kind === DELETION_KIND) {
+    const obsolete: UnwrappedRumor[] = []
+    for (const [, address] of rumor.tags.filter((tag) => tag[0] === "a")) {
+      deletedAddresses.set(address, Math.max(deletedAddresses.get(address) ?? 0, rumor.created_at))
+      const noteId = address.slice(address.indexOf(ENTRY_D_TAG_PREFIX) + ENTRY_D_TAG_PREFIX.length)
+      const versions = entryWraps.get(noteId) || []
+      obsolete.push(...versions.filter((version) => version.rumor.created_at <= rumor.created_at))
+      const remaining = versions.filter((version) => version.rumor.created_at > rumor.created_at)
+      if (remaining.length > 0) {
+        entryWraps.set(noteId, remaining)
+      } else {
+        entryWraps.delete(noteId)
+      }
+    }
+    return obsolete
+  }
+
+  const deletedAt = deletedAddresses.get(getEventAddress(rumor))
+  if (deletedAt !== undefined && rumor.created_at <= deletedAt) return [opened]
+
+  const noteId = getRumorNoteId(rumor)!
+  const versions = [...(entryWraps.get(noteId) || []), opened].sort((a, b) => (isNewerVersion(a.rumor, b.rumor) ? -1 : 1))
+  entryWraps.set(noteId, versions)
+  return versions.slice(1)
+}
+
+/**
+ * Load every entry by unwrapping the gift wraps addressed to the user
+ */
+export async function loadGiftWrappedJournal(authData: any): Promise<DecryptedNote[]> {
+  const pubkey = await getSignerPubkey(authData)
+  const wraps = await fetchAllPages(getJournalReadRelays(), { kinds: [GIFT_WRAP_KIND], "#p": [pubkey] })
+  console.log("[GiftWrapJournal] 🎁 Unwrapping", wraps.length, "gift wraps...")
+
+  const opened: UnwrappedRumor[] = []
+  // Sequential on purpose - remote signers handle one request at a time
+  for (const wrap of wraps) {
+    try {
+      const result = await unwrap(wrap, authData, pubkey)
+      if (result) opened.push(result)
+    } catch (error) {
+      console.warn("[GiftWrapJournal] ⚠️ Could not unwrap:", wrap.id, error)
+    }
+  }
+
+  entryWraps.clear()
+  deletedAddresses.clear()
+  // Deletions first, so entries they cover are dropped whatever order relays sent them in
+  opened.sort((a, b) => Number(b.rumor.kind === DELETION_KIND) - Number(a.rumor.kind === DELETION_KIND))
+  const obsolete = opened.flatMap((result) => applyRumor(result))
+
+  // Leftovers of replaced or deleted entries whose wraps are still on relays
+  if (obsolete.length > 0) {
+    console.log("[GiftWrapJournal] 🧹 Deleting", obsolete.length, "obsolete wraps")
+    deleteWraps(obsolete, authData, pubkey).catch((error) => console.warn("[GiftWrapJournal] ⚠️ Could not delete obsolete wraps:", error))
+  }
+
+  const notes = Array.from(entryWraps.values(), ([newest]) => toNote(newest))
+  console.log("[GiftWrapJournal] ✅ Loaded", notes.length, "entries")
+  return notes
+}
+
+/**
+ * Publish a new wrap for the entry, then delete the wraps of its earlier versions
+ */
+export async function saveGiftWrappedEntry(note: DecryptedNote, authData: any): Promise<JournalSaveResult> {
+  try {
+    const pubkey = await getSignerPubkey(authData)
+    const wrapKey = generateSecretKey()
+    const stored = {
+      id: note.id,
+      title: note.title,
+      content: note.content,
+      tags: note.tags,
+      createdAt: note.createdAt,
+      lastModified: note.lastModified,
+    }
+    const rumor = createRumor(
+      ENTRY_RUMOR_KIND,
+      [["d", `${ENTRY_D_TAG_PREFIX}${note.id}`]],
+      JSON.stringify({ note: stored, wrapKey: bytesToHex(wrapKey) }),
+      pubkey,
+    )
+    const wrap = await wrapRumor(rumor, wrapKey, authData, pubkey)
+    const { accepted, relays } = await publish(wrap, authData, pubkey, note.id)
+    console.log("[GiftWrapJournal] 📡 Published wrapped entry:", note.id, wrap.id, accepted ? "" : "(kept in the outbox)")
+
+    const opened: UnwrappedRumor = { wrap, rumor, wrapKey: bytesToHex(wrapKey) }
+    unwrapped.set(wrap.id, opened)
+    const obsolete = applyRumor(opened)
+    // Earlier versions are only dropped once relays have the new one
+    if (accepted) await deleteWraps(obsolete, authData, pubkey)
+    return { success: true, eventId: wrap.id, eventCreatedAt: rumor.created_at, pending: !accepted, relays }
+  } catch (error) {
+    console.error("[GiftWrapJournal] ❌ Failed to save entry:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+/**
+ * Publish a wrapped deletion for the entry, then delete its wraps. The wrapped
+ * deletion still removes the entry on other devices if relays keep the wraps.
+ */
+export async function deleteGiftWrappedEntry(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }> {
+  try {
+    const pubkey = await getSignerPubkey(authData)
+    const rumor = createRumor(DELETION_KIND, [["a", getEntryAddress(pubkey, note.id)]], "", pubkey)
+    const wrap = await wrapRumor(rumor, generateSecretKey(), authData, pubkey)
+    const { accepted } = await publish(wrap, authData, pubkey)
+    console.log("[GiftWrapJournal] 🗑️ Published wrapped deletion:", note.id, wrap.id)
+
+    const opened: UnwrappedRumor = { wrap, rumor }
+    unwrapped.set(wrap.id, opened)
+    const obsolete = applyRumor(opened)
+    if (!accepted) {
+      return { success: false, error: "Fewer relays than the publish quorum accepted the deletion; it stays in the outbox and is retried" }
+    }
+    await deleteWraps(obsolete, authData, pubkey)
+    return { success: true }
+  } catch (error) {
+    console.error("[GiftWrapJournal] ❌ Failed to delete entry:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+/**
+ * Report entries changed or deleted on other devices
+ */
+export async function subscribeToGiftWrappedJournal(authData: any, handlers: JournalChangeHandlers): Promise<() => void> {
+  const pubkey = await getSignerPubkey(authData)
+  // Wraps are backdated, so a new one can carry a created_at up to the jitter in the past
+  const since = Math.floor(Date.now() / 1000) - TIMESTAMP_JITTER_SECONDS
+
+  const close = subscribeWithReconnect(
+    getJournalReadRelays(),
+    { kinds: [GIFT_WRAP_KIND], "#p": [pubkey] },
+    since,
+    (wrap) => {
+      if (unwrapped.has(wrap.id)) return
+      unwrap(wrap, authData, pubkey)
+        .then((opened) => {
+          if (!opened) return
+          const { rumor } = opened
+          const obsolete = applyRumor(opened)
+          if (rumor.kind === DELETION_KIND) {
+            const noteIds = Array.from(new Set(obsolete.map((version) => getRumorNoteId(version.rumor)!)))
+            if (noteIds.length > 0) handlers.onNotesDeleted(noteIds)
+          } else if (!obsolete.includes(opened)) {
+            console.log("[GiftWrapJournal] 🔄 Entry changed on another device:", getRumorNoteId(rumor))
+            handlers.onNoteChanged(toNote(opened))
+          }
+        })
+        .catch((error) => console.error("[GiftWrapJournal] ❌ Failed to apply live wrap:", wrap.id, error))
+    },
+    TIMESTAMP_JITTER_SECONDS,
+  )
+
+  console.log("[GiftWrapJournal] 📡 Subscribed to live journal changes")
+  return close
+}
+
+/**
+ * Forget unwrapped rumors (on logout)
+ */
+export function clearGiftWrapState(): void {
+  unwrapped.clear()
+  entryWraps.clear()
+  deletedAddresses.clear()
+}
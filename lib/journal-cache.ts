@@ -0,0 +1,149 @@
+// IndexedDB cache of signed, encrypted journal events
+// Keyed by NIP-01 address so the UI can render before relays answer and keep
+// offline edits until they can be published
+
+import { getEventAddress, isNewerVersion } from "./addressable-events"
+
+export interface CachedJournalEvent {
+  address: string
+  pubkey: string
+  event: any // Signed event exactly as published (content stays encrypted)
+  pending: boolean // Signed locally but not yet accepted by any relay
+  cachedAt: number
+}
+
+class JournalEventCache {
+  private dbName = "nostr-journal-cache"
+  private version = 1
+  private storeName = "events"
+
+  private async openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, { keyPath: "address" })
+          store.createIndex("pubkey", "pubkey", { unique: false })
+        }
+      }
+    })
+  }
+
+  async getEvents(pubkey: string): Promise<CachedJournalEvent[]> {
+    if (typeof indexedDB === "undefined") return []
+
+    try {
+      const db = await this.openDB()
+      const transaction = db.transaction([this.storeName], "readonly")
+      const request = transaction.objectStore(this.storeName).index("pubkey").getAll(pubkey)
+
+      return new Promise((resolve) => {
+        request.onsuccess = () => resolve(request.result || [])
+        request.onerror = () => resolve([])
+      })
+    } catch {
+      return []
+    }
+  }
+
+  async getEvent(address: string): Promise<CachedJournalEvent | null> {
+    if (typeof indexedDB === "undefined") return null
+
+    try {
+      const db = await this.openDB()
+      const transaction = db.transaction([this.storeName], "readonly")
+      const request = transaction.objectStore(this.storeName).get(address)
+
+      return new Promise((resolve) => {
+        request.onsuccess = () => resolve(request.result || null)
+        request.onerror = () => resolve(null)
+      })
+    } catch {
+      return null
+    }
+  }
+
+  async getPendingEvents(pubkey: string): Promise<CachedJournalEvent[]> {
+    const cached = await this.getEvents(pubkey)
+    return cached.filter((entry) => entry.pending)
+  }
+
+  /**
+   * Store events, keeping whichever version of each address is newer.
+   * A pending local edit is never replaced by an older relay copy.
+   */
+  async putEvents(events: any[], options: { pending?: boolean } = {}): Promise<void> {
+    if (typeof indexedDB === "undefined" || events.length === 0) return
+
+    const db = await this.openDB()
+    const transaction = db.transaction([this.storeName], "readwrite")
+    const store = transaction.objectStore(this.storeName)
+
+    for (const event of events) {
+      const address = getEventAddress(event)
+      const request = store.get(address)
+      request.onsuccess = () => {
+        const existing: CachedJournalEvent | undefined = request.result
+        if (existing && existing.event.id !== event.id && isNewerVersion(existing.event, event)) {
+          return
+        }
+        // Seeing our own pending event come back from a relay means it was published
+        const pending = existing && existing.event.id === event.id ? existing.pending && !!options.pending : !!options.pending
+        store.put({ address, pubkey: event.pubkey, event, pending, cachedAt: Date.now() })
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  async markPublished(address: string, eventId: string): Promise<void> {
+    if (typeof indexedDB === "undefined") return
+
+    const db = await this.openDB()
+    const transaction = db.transaction([this.storeName], "readwrite")
+    const store = transaction.objectStore(this.storeName)
+    const request = store.get(address)
+    request.onsuccess = () => {
+      const existing: CachedJournalEvent | undefined = request.result
+      if (existing && existing.event.id === eventId && existing.pending) {
+        store.put({ ...existing, pending: false })
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  async removeAddresses(addresses: string[]): Promise<void> {
+    if (typeof indexedDB === "undefined" || addresses.length === 0) return
+
+    const db = await this.openDB()
+    const transaction = db.transaction([this.storeName], "readwrite")
+    const store = transaction.objectStore(this.storeName)
+    for (const address of addresses) {
+      store.delete(address)
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  async clear(pubkey: string): Promise<void> {
+    const cached = await this.getEvents(pubkey)
+    await this.removeAddresses(cached.map((entry) => entry.address))
+  }
+}
+
+export const journalCache = new JournalEventCache()
@@ -0,0 +1,132 @@
+/**
+ * Journal Conflicts - edits made on two devices from the same base version
+ * A conflicting local edit is held back until the user picks or merges a
+ * version; nothing here resolves a conflict on its own.
+ */
+
+export interface JournalVersion {
+  title: string
+  content: string
+  tags: string[]
+}
+
+export interface JournalConflict {
+  noteId: string
+  base?: JournalVersion // Version both edits started from, when still available
+  local: JournalVersion
+  remote: JournalVersion & { eventId: string; createdAt: number }
+  detectedAt: number
+}
+
+export interface MergeResult {
+  merged: string
+  hasConflicts: boolean
+}
+
+// Above this many lines per side, skip the line diff and mark the whole text as conflicting
+const MAX_MERGE_LINES = 2000
+
+export const CONFLICT_MARKERS = {
+  local: "<<<<<<< this device",
+  separator: "=======",
+  remote: ">>>>>>> other device",
+}
+
+/**
+ * Map each base line to its line in `other` along the longest common subsequence
+ */
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const lengths: number[][] = Array.from({ length: base.length + 1 }, () => new Array(other.length + 1).fill(0))
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i][j] = base[i] === other[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const matches = new Map<number, number>()
+  let i = 0
+  let j = 0
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      matches.set(i, j)
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+/**
+ * Line-based three-way merge. Changes made on only one side are applied;
+ * lines changed differently on both sides are kept between conflict markers.
+ */
+export function mergeJournalText(base: string, local: string, remote: string): MergeResult {
+  if (local === remote) return { merged: local, hasConflicts: false }
+  if (local === base) return { merged: remote, hasConflicts: false }
+  if (remote === base) return { merged: local, hasConflicts: false }
+
+  const baseLines = base.split("\n")
+  const localLines = local.split("\n")
+  const remoteLines = remote.split("\n")
+
+  if (Math.max(baseLines.length, localLines.length, remoteLines.length) > MAX_MERGE_LINES) {
+    return {
+      merged: [CONFLICT_MARKERS.local, local, CONFLICT_MARKERS.separator, remote, CONFLICT_MARKERS.remote].join("\n"),
+      hasConflicts: true,
+    }
+  }
+
+  const localMatches = matchLines(baseLines, localLines)
+  const remoteMatches = matchLines(baseLines, remoteLines)
+  const merged: string[] = []
+  let hasConflicts = false
+  let i = 0
+  let j = 0
+  let k = 0
+
+  while (true) {
+    // Next base line left untouched on both sides
+    let stable = i
+    while (stable < baseLines.length && !(localMatches.has(stable) && remoteMatches.has(stable))) {
+      stable++
+    }
+    const localEnd = stable < baseLines.length ? localMatches.get(stable)! : localLines.length
+    const remoteEnd = stable < baseLines.length ? remoteMatches.get(stable)! : remoteLines.length
+
+    const baseChunk = baseLines.slice(i, stable)
+    const localChunk = localLines.slice(j, localEnd)
+    const remoteChunk = remoteLines.slice(k, remoteEnd)
+
+    if (sameLines(localChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      merged.push(...remoteChunk)
+    } else if (sameLines(remoteChunk, baseChunk)) {
+      merged.push(...localChunk)
+    } else {
+      hasConflicts = true
+      merged.push(CONFLICT_MARKERS.local, ...localChunk, CONFLICT_MARKERS.separator, ...remoteChunk, CONFLICT_MARKERS.remote)
+    }
+
+    if (stable >= baseLines.length) break
+    merged.push(baseLines[stable])
+    i = stable + 1
+    j = localEnd + 1
+    k = remoteEnd + 1
+  }
+
+  return { merged: merged.join("\n"), hasConflicts }
+}
+
+/**
+ * True while merged text still contains unresolved conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return text.split("\n").some((line) => line === CONFLICT_MARKERS.local || line === CONFLICT_MARKERS.remote)
+}
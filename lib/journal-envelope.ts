@@ -0,0 +1,221 @@
+"use client"
+
+/**
+ * Journal Envelope - Self-describing ciphertext format for journal event content
+ *
+ * Content is stored as JSON: { v, alg, kdf, ct }. The version and algorithm id
+ * let several schemes be read side by side while entries are being migrated.
+ * Bare base64 blobs written before the envelope existed are treated as version 0.
+ */
+
+import { nip04 } from "nostr-tools"
+import { hexToBytes } from "nostr-tools/utils"
+import { nip44EncryptToSelf, nip44DecryptFromSelf, looksLikeNip44Payload } from "./self-encryption"
+import { cryptoService } from "./crypto-service"
+import { padPayload, unpadPayload, type JournalPaddingPolicy } from "./journal-padding"
+import { getJournalSettings } from "./journal-settings"
+
+// Current envelope version written by this build
+export const JOURNAL_ENVELOPE_VERSION = 1
+
+// Highest envelope version this build knows how to read
+const MAX_READABLE_ENVELOPE_VERSION = 1
+
+// Algorithm written for new entries
+export const CURRENT_JOURNAL_ALGORITHM: JournalEnvelopeAlgorithm = "nip44-v2"
+
+export type JournalEnvelopeAlgorithm = "nip44-v2" | "aes-256-gcm" | "nip04"
+
+// Key derivation parameters recorded alongside the ciphertext
+export type JournalEnvelopeKdf =
+  | { name: "nip44-conversation-key"; peer: string }
+  | { name: "nip04-shared-secret"; peer: string }
+  | { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string; source: "pubkey" | "privkey" }
+
+export interface JournalEnvelope {
+  v: number
+  alg: JournalEnvelopeAlgorithm
+  kdf: JournalEnvelopeKdf
+  pad?: JournalPaddingPolicy // Plaintext was padded before encryption
+  ct: string
+}
+
+export type EnvelopeDecryptResult =
+  | { status: "ok"; plaintext: string; version: number; alg: JournalEnvelopeAlgorithm }
+  | { status: "unsupported"; version: number; alg?: string; reason: string }
+  | { status: "failed"; error: string }
+
+// PBKDF2 parameters used by deterministicEncrypt / encryptNote before the envelope existed
+const LEGACY_PBKDF2_SALT = "nostr-journal-self-encrypt"
+const LEGACY_PBKDF2_ITERATIONS = 100000
+
+type Decryptor = (envelope: JournalEnvelope, authData: any, pubkey: string) => Promise<string>
+
+const DECRYPTORS: Record<JournalEnvelopeAlgorithm, Decryptor> = {
+  "nip44-v2": async (envelope, authData, pubkey) => {
+    const peer = envelope.kdf.name === "nip44-conversation-key" ? envelope.kdf.peer : pubkey
+    return nip44DecryptFromSelf(envelope.ct, authData, peer)
+  },
+  "aes-256-gcm": async (envelope, authData, pubkey) => {
+    if (envelope.kdf.name !== "PBKDF2") {
+      throw new Error(`Unsupported key derivation for aes-256-gcm: ${envelope.kdf.name}`)
+    }
+    const keySource = envelope.kdf.source === "privkey" ? hexToBytes(authData.privateKey || "") : new TextEncoder().encode(pubkey)
+    if (keySource.length === 0) {
+      throw new Error("Private key not available for this entry")
+    }
+    // Derived off the main thread, once per key for the session
+    const { salt, iterations, source } = envelope.kdf
+    return cryptoService.decryptPbkdf2({ keyId: `${source}:${pubkey}:${salt}:${iterations}`, keySource, salt, iterations, ct: envelope.ct })
+  },
+  nip04: async (envelope, authData, pubkey) => {
+    const peer = envelope.kdf.name === "nip04-shared-secret" ? envelope.kdf.peer : pubkey
+    return nip04DecryptFromSelf(envelope.ct, authData, peer)
+  },
+}
+
+/**
+ * Parse event content into an envelope, or null for a bare legacy blob
+ */
+export function parseJournalEnvelope(content: string): JournalEnvelope | null {
+  if (!content || content[0] !== "{") {
+    return null
+  }
+  try {
+    const parsed = JSON.parse(content)
+    if (parsed && typeof parsed.v === "number" && typeof parsed.ct === "string") {
+      return parsed as JournalEnvelope
+    }
+  } catch {
+    // Not JSON - fall through to legacy handling
+  }
+  return null
+}
+
+/**
+ * Encrypt a JSON plaintext with the current scheme, padded per the padding
+ * setting, and wrap it in an envelope
+ */
+export async function encryptJournalPayload(plaintext: string, authData: any, pubkey: string): Promise<string> {
+  const { paddingPolicy } = getJournalSettings()
+  const ct = await nip44EncryptToSelf(padPayload(plaintext, paddingPolicy), authData, pubkey)
+  const envelope: JournalEnvelope = {
+    v: JOURNAL_ENVELOPE_VERSION,
+    alg: CURRENT_JOURNAL_ALGORITHM,
+    kdf: { name: "nip44-conversation-key", peer: pubkey },
+    ...(paddingPolicy !== "none" && { pad: paddingPolicy }),
+    ct,
+  }
+  return JSON.stringify(envelope)
+}
+
+/**
+ * Decrypt journal event content, dispatching on the envelope version and algorithm
+ */
+export async function decryptJournalPayload(content: string, authData: any, pubkey: string): Promise<EnvelopeDecryptResult> {
+  const envelope = parseJournalEnvelope(content)
+
+  if (!envelope) {
+    return decryptBareLegacyPayload(content, authData, pubkey)
+  }
+
+  if (envelope.v > MAX_READABLE_ENVELOPE_VERSION) {
+    console.warn("[JournalEnvelope] ⚠️ Envelope version", envelope.v, "is newer than this build supports")
+    return {
+      status: "unsupported",
+      version: envelope.v,
+      alg: envelope.alg,
+      reason: `Written with envelope version ${envelope.v}; this version reads up to ${MAX_READABLE_ENVELOPE_VERSION}`,
+    }
+  }
+
+  const decryptor = DECRYPTORS[envelope.alg]
+  if (!decryptor) {
+    console.warn("[JournalEnvelope] ⚠️ Unknown envelope algorithm:", envelope.alg)
+    return {
+      status: "unsupported",
+      version: envelope.v,
+      alg: envelope.alg,
+      reason: `Unknown encryption algorithm "${envelope.alg}"`,
+    }
+  }
+
+  try {
+    const plaintext = await decryptor(envelope, authData, pubkey)
+    return { status: "ok", plaintext: envelope.pad ? unpadPayload(plaintext) : plaintext, version: envelope.v, alg: envelope.alg }
+  } catch (error) {
+    console.error("[JournalEnvelope] ❌ Failed to decrypt", envelope.alg, "envelope:", error)
+    return { status: "failed", error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+/**
+ * Check whether an entry should be re-encrypted with the current scheme
+ */
+export function needsReencryption(note: { encryptionScheme?: JournalEnvelopeAlgorithm; envelopeVersion?: number }): boolean {
+  if (!note.encryptionScheme) {
+    return false
+  }
+  return note.encryptionScheme !== CURRENT_JOURNAL_ALGORITHM || note.envelopeVersion !== JOURNAL_ENVELOPE_VERSION
+}
+
+/**
+ * Version 0: bare blobs from before the envelope. The scheme is not recorded,
+ * so try each one that has produced journal content in the past.
+ */
+async function decryptBareLegacyPayload(content: string, authData: any, pubkey: string): Promise<EnvelopeDecryptResult> {
+  const candidates: JournalEnvelope[] = []
+
+  if (content.includes("?iv=")) {
+    candidates.push({ v: 0, alg: "nip04", kdf: { name: "nip04-shared-secret", peer: pubkey }, ct: content })
+  } else {
+    if (looksLikeNip44Payload(content)) {
+      candidates.push({ v: 0, alg: "nip44-v2", kdf: { name: "nip44-conversation-key", peer: pubkey }, ct: content })
+    }
+    candidates.push({
+      v: 0,
+      alg: "aes-256-gcm",
+      kdf: { name: "PBKDF2", hash: "SHA-256", iterations: LEGACY_PBKDF2_ITERATIONS, salt: LEGACY_PBKDF2_SALT, source: "pubkey" },
+      ct: content,
+    })
+    if (authData.authMethod === "nsec" && authData.privateKey) {
+      // encryptNote in nostr-storage.ts keyed nsec users' notes on the private key
+      candidates.push({
+        v: 0,
+        alg: "aes-256-gcm",
+        kdf: { name: "PBKDF2", hash: "SHA-256", iterations: LEGACY_PBKDF2_ITERATIONS, salt: LEGACY_PBKDF2_SALT, source: "privkey" },
+        ct: content,
+      })
+    }
+  }
+
+  let lastError = "No legacy scheme matched"
+  for (const candidate of candidates) {
+    try {
+      const plaintext = await DECRYPTORS[candidate.alg](candidate, authData, pubkey)
+      console.log("[JournalEnvelope] ✅ Decrypted bare legacy payload with", candidate.alg)
+      return { status: "ok", plaintext, version: 0, alg: candidate.alg }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+
+  return { status: "failed", error: lastError }
+}
+
+/**
+ * NIP-04 decryption of content encrypted to self, through the active signer
+ */
+async function nip04DecryptFromSelf(ciphertext: string, authData: any, pubkey: string): Promise<string> {
+  if (authData.authMethod === "nsec" && authData.privateKey) {
+    return nip04.decrypt(hexToBytes(authData.privateKey), pubkey, ciphertext)
+  }
+  if (authData.authMethod === "extension" && window.nostr?.nip04) {
+    return window.nostr.nip04.decrypt(pubkey, ciphertext)
+  }
+  if (authData.authMethod === "remote") {
+    const { remoteSignerManager } = await import("./remote-signer-manager")
+    return remoteSignerManager.nip04Decrypt(pubkey, ciphertext)
+  }
+  throw new Error("NIP-04 decryption is not available for this signer")
+}
@@ -0,0 +1,160 @@
+// IndexedDB outbox of journal events waiting to reach relays
+// Survives reloads and signer disconnects: edits that could not be signed yet
+// are kept (encrypted at rest) and signed on a later attempt
+
+import type { RelayOkPrefix } from "./relay-ok"
+
+// What a relay answered to the last publish: "ok" accepted it, "failed" rejected it
+// (the message has the relay's reason), "timeout" gave no answer in time
+export type OutboxRelayStatus = "pending" | "ok" | "failed" | "timeout"
+
+export interface OutboxRelayState {
+  status: OutboxRelayStatus
+  message?: string
+  prefix?: RelayOkPrefix // NIP-01 reason prefix of the relay's OK message
+  at?: number
+}
+
+// Per-relay receipts for one version of an entry, by relay URL
+export type RelayReceipts = Record<string, OutboxRelayState>
+
+// Relay version an edit was made from
+export interface OutboxBaseVersion {
+  eventId: string
+  createdAt: number
+  event?: any // Kept when available so a conflict can be merged three ways
+}
+
+// A note waiting for the signer. NIP-44 encrypted to ourselves when the signer could
+// still encrypt at queue time; otherwise plain JSON in IndexedDB (the UI says so).
+export interface QueuedNote {
+  scheme: "nip44" | "plaintext"
+  payload: string
+}
+
+export interface OutboxEntry {
+  address: string // NIP-01 address; a newer edit replaces the queued one
+  noteId?: string // Entry the event belongs to, which an opaque d-tag doesn't reveal
+  pubkey: string
+  state: "unsigned" | "signed"
+  event?: any // Signed event, once the signer was available
+  queuedNote?: QueuedNote // Note awaiting the signer
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+  relays: RelayReceipts
+  createdAt: number
+  base?: OutboxBaseVersion
+  conflict?: { event: any; detectedAt: number } // Relays moved on from the base; held until the user resolves it
+}
+
+// Retry schedule: 2s, 4s, 8s ... capped at 5 minutes
+const BASE_RETRY_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+// Once one relay has the event, give up on relays still failing after this many attempts
+export const MAX_RELAY_ATTEMPTS = 5
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
+
+class JournalOutbox {
+  private dbName = "nostr-journal-outbox"
+  private version = 1
+  private storeName = "entries"
+
+  private async openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, { keyPath: "address" })
+          store.createIndex("pubkey", "pubkey", { unique: false })
+        }
+      }
+    })
+  }
+
+  async getAll(): Promise<OutboxEntry[]> {
+    if (typeof indexedDB === "undefined") return []
+
+    try {
+      const db = await this.openDB()
+      const transaction = db.transaction([this.storeName], "readonly")
+      const request = transaction.objectStore(this.storeName).getAll()
+
+      return new Promise((resolve) => {
+        request.onsuccess = () => resolve(request.result || [])
+        request.onerror = () => resolve([])
+      })
+    } catch {
+      return []
+    }
+  }
+
+  async getEntries(pubkey: string): Promise<OutboxEntry[]> {
+    const entries = await this.getAll()
+    return entries.filter((entry) => entry.pubkey === pubkey)
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    if (typeof indexedDB === "undefined") return
+
+    const db = await this.openDB()
+    const transaction = db.transaction([this.storeName], "readwrite")
+    transaction.objectStore(this.storeName).put(entry)
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  async remove(address: string): Promise<void> {
+    if (typeof indexedDB === "undefined") return
+
+    const db = await this.openDB()
+    const transaction = db.transaction([this.storeName], "readwrite")
+    transaction.objectStore(this.storeName).delete(address)
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  /**
+   * Record the outcome of an attempt (null = done) unless a newer edit
+   * for the same address was queued while the attempt was running
+   */
+  async settle(attempted: OutboxEntry, next: OutboxEntry | null): Promise<void> {
+    if (typeof indexedDB === "undefined") return
+
+    const db = await this.openDB()
+    const transaction = db.transaction([this.storeName], "readwrite")
+    const store = transaction.objectStore(this.storeName)
+    const request = store.get(attempted.address)
+    request.onsuccess = () => {
+      const current: OutboxEntry | undefined = request.result
+      if (current && current.createdAt !== attempted.createdAt) return
+      if (next) {
+        store.put(next)
+      } else {
+        store.delete(attempted.address)
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+}
+
+export const journalOutbox = new JournalOutbox()
@@ -0,0 +1,60 @@
+/**
+ * Journal Padding - Pads encrypted journal payloads to size buckets
+ * NIP-44 only rounds plaintext up to small steps, so ciphertext length still
+ * tells roughly how long an entry is and how it grows between edits. Payloads
+ * are JSON, so the padding is trailing whitespace: readers without padding
+ * support still parse them.
+ */
+
+export type JournalPaddingPolicy = "none" | "buckets" | "power-of-two"
+
+interface PaddingPolicyInfo {
+  label: string
+  description: string
+  paddedLength: (length: number) => number // Bytes the payload is padded to
+}
+
+// NIP-44 can't encrypt more than this many bytes of plaintext
+const NIP44_MAX_PLAINTEXT_BYTES = 65535
+
+function nextPowerOfTwo(length: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(length, 1)))
+}
+
+export const PADDING_POLICIES: Record<JournalPaddingPolicy, PaddingPolicyInfo> = {
+  none: {
+    label: "None",
+    description: "Only NIP-44's own padding. Ciphertext length follows the entry closely.",
+    paddedLength: (length) => length,
+  },
+  buckets: {
+    label: "Size buckets",
+    description: "At least 1 KB, then NIP-44 style steps of an eighth of the next power of two.",
+    paddedLength: (length) => {
+      if (length <= 1024) return 1024
+      const chunk = nextPowerOfTwo(length) / 8
+      return Math.ceil(length / chunk) * chunk
+    },
+  },
+  "power-of-two": {
+    label: "Powers of two",
+    description: "At least 4 KB, then the next power of two. Hides the most, at up to twice the size.",
+    paddedLength: (length) => Math.max(4096, nextPowerOfTwo(length)),
+  },
+}
+
+/**
+ * Pad a JSON payload with trailing spaces up to the policy's bucket
+ */
+export function padPayload(payload: string, policy: JournalPaddingPolicy): string {
+  const length = new TextEncoder().encode(payload).length
+  const target = Math.min(PADDING_POLICIES[policy].paddedLength(length), NIP44_MAX_PLAINTEXT_BYTES)
+  return target > length ? payload + " ".repeat(target - length) : payload
+}
+
+/**
+ * Strip padding added by padPayload (JSON never ends in whitespace)
+ */
+export function unpadPayload(payload: string): string {
+  return payload.trimEnd()
+}
@@ -0,0 +1,64 @@
+/**
+ * Journal Settings - Per-device preferences for journal storage behaviour
+ */
+
+import type { JournalPaddingPolicy } from "./journal-padding"
+
+// Storage layouts a journal can be kept in; see lib/journal-store.ts
+export type JournalStorageBackend = "kind30001" | "giftwrap" | "kind30078" | "local"
+
+const STORAGE_BACKENDS: JournalStorageBackend[] = ["kind30001", "giftwrap", "kind30078", "local"]
+
+export interface JournalSettings {
+  // Days a trashed entry is kept before it is hard-deleted with a kind 5 event
+  trashRetentionDays: number
+  // Where entries are loaded from and saved to
+  storageBackend: JournalStorageBackend
+  // Size buckets encrypted payloads are padded to (lib/journal-padding.ts)
+  paddingPolicy: JournalPaddingPolicy
+  // Relays that must accept a save before it counts as published
+  publishQuorum: number
+}
+
+export const DEFAULT_JOURNAL_SETTINGS: JournalSettings = {
+  trashRetentionDays: 30,
+  storageBackend: "kind30001",
+  paddingPolicy: "buckets",
+  publishQuorum: 2,
+}
+
+const SETTINGS_STORAGE_KEY = "nostr_journal_settings"
+
+// Load settings, filling in defaults for anything missing
+export function getJournalSettings(): JournalSettings {
+  if (typeof window === "undefined") return { ...DEFAULT_JOURNAL_SETTINGS }
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    if (stored) {
+      const settings: JournalSettings = { ...DEFAULT_JOURNAL_SETTINGS, ...JSON.parse(stored) }
+      // A backend this build doesn't know falls back to the default
+      if (!STORAGE_BACKENDS.includes(settings.storageBackend)) {
+        settings.storageBackend = DEFAULT_JOURNAL_SETTINGS.storageBackend
+      }
+      return settings
+    }
+  } catch (error) {
+    console.error("[JournalSettings] Failed to read settings:", error)
+  }
+  return { ...DEFAULT_JOURNAL_SETTINGS }
+}
+
+// Save a partial update and return the resulting settings
+export function saveJournalSettings(update: Partial<JournalSettings>): JournalSettings {
+  const settings = { ...getJournalSettings(), ...update }
+  if (typeof window === "undefined") return settings
+
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+    console.log("[JournalSettings] 💾 Saved settings:", settings)
+  } catch (error) {
+    console.error("[JournalSettings] Failed to save settings:", error)
+  }
+  return settings
+}
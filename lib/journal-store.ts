@@ -0,0 +1,175 @@
+/**
+ * Journal Store - One interface over the journal's storage backends
+ * The backend is picked in Journal Settings, so storage layouts can be tried
+ * and switched without touching the app.
+ */
+
+import type { DecryptedNote } from "./nostr-crypto"
+import { fetchAllNotesFromNostr, saveNoteToNostr, deleteNoteOnNostr, clearUserCache } from "./nostr-storage"
+import {
+  loadJournalFromKind30001,
+  loadJournalFromCache,
+  saveJournalAsKind30001,
+  moveJournalToTrash,
+  getJournalTrash,
+  restoreJournalFromTrash,
+  purgeJournalFromTrash,
+  purgeExpiredJournalTrash,
+  subscribeToJournalChanges,
+  type TrashedJournalEntry,
+  type JournalLoadOptions,
+  type JournalSaveResult,
+  type JournalChangeHandlers,
+} from "./kind30001-journal"
+import {
+  loadGiftWrappedJournal,
+  saveGiftWrappedEntry,
+  deleteGiftWrappedEntry,
+  subscribeToGiftWrappedJournal,
+} from "./gift-wrap-journal"
+import { loadLocalJournal, saveLocalJournalEntry, deleteLocalJournalEntry } from "./local-journal"
+import { getJournalSettings, type JournalStorageBackend } from "./journal-settings"
+
+export interface JournalExport {
+  backend: JournalStorageBackend
+  pubkey: string
+  exportedAt: string // ISO timestamp
+  notes: DecryptedNote[]
+}
+
+// Trash of a backend that keeps deleted entries for a while
+export interface JournalTrash {
+  // Entries in the trash as of the last load or trash change
+  list(): TrashedJournalEntry[]
+  restore(noteId: string, authData: any): Promise<{ success: boolean; note?: DecryptedNote; error?: string }>
+  // Delete for good
+  purge(noteIds: string[], authData: any): Promise<{ success: boolean; error?: string }>
+  purgeExpired(authData: any, retentionDays: number): Promise<{ purged: number; error?: string }>
+}
+
+export interface JournalStore {
+  id: JournalStorageBackend
+  label: string
+  description: string
+  // Everything the backend holds for the user
+  load(authData: any, options?: JournalLoadOptions): Promise<DecryptedNote[]>
+  // Whatever can be shown before the network answers; empty when the backend keeps no local copy
+  loadCached(authData: any): Promise<DecryptedNote[]>
+  save(note: DecryptedNote, authData: any): Promise<JournalSaveResult>
+  delete(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }>
+  // Report changes made elsewhere; resolves to a function that stops listening
+  subscribe(authData: any, handlers: JournalChangeHandlers): Promise<() => void>
+  export(authData: any): Promise<JournalExport>
+  // Missing when deleting is final; the app hides the trash then
+  trash?: JournalTrash
+}
+
+async function exportNotes(store: JournalStore, authData: any): Promise<JournalExport> {
+  return {
+    backend: store.id,
+    pubkey: authData.pubkey,
+    exportedAt: new Date().toISOString(),
+    notes: await store.load(authData),
+  }
+}
+
+// Journal events (NIP-78 by default, see JOURNAL_LAYOUT) with NIP-44 envelopes, trash,
+// outbox and live sync. The id predates the move off NIP-51 and is kept for saved settings.
+const kind30001Store: JournalStore = {
+  id: "kind30001",
+  label: "Journal events (kind 30078)",
+  description: "Each entry is an encrypted NIP-78 event. Supports trash, offline edits and live sync. Entries saved as kind 30001 lists are moved over automatically.",
+  load: (authData, options) => loadJournalFromKind30001(authData, options),
+  loadCached: (authData) => loadJournalFromCache(authData),
+  save: (note, authData) => saveJournalAsKind30001(note, authData),
+  // Deleting moves the entry to the trash; it is hard-deleted after the retention period
+  delete: (note, authData) => moveJournalToTrash(note, authData),
+  subscribe: (authData, handlers) => subscribeToJournalChanges(authData, handlers),
+  export(authData) {
+    return exportNotes(this, authData)
+  },
+  trash: {
+    list: () => getJournalTrash(),
+    restore: (noteId, authData) => restoreJournalFromTrash(noteId, authData),
+    purge: (noteIds, authData) => purgeJournalFromTrash(noteIds, authData),
+    purgeExpired: (authData, retentionDays) => purgeExpiredJournalTrash(authData, retentionDays),
+  },
+}
+
+// NIP-59 gift wraps (kind 1059) from throwaway keys; relays can't tell who writes the journal
+const giftWrapStore: JournalStore = {
+  id: "giftwrap",
+  label: "Gift-wrapped (kind 1059)",
+  description:
+    "Each entry is sealed and gift-wrapped by a throwaway key, hiding who writes and when. Loading unwraps every wrap sent to you, so it is slower. No trash or offline edits.",
+  load: (authData) => loadGiftWrappedJournal(authData),
+  loadCached: async () => [],
+  save: (note, authData) => saveGiftWrappedEntry(note, authData),
+  delete: (note, authData) => deleteGiftWrappedEntry(note, authData),
+  subscribe: (authData, handlers) => subscribeToGiftWrappedJournal(authData, handlers),
+  export(authData) {
+    return exportNotes(this, authData)
+  },
+}
+
+// NIP-78 application data (kind 30078), one event per note
+const kind30078Store: JournalStore = {
+  id: "kind30078",
+  label: "App data (kind 30078)",
+  description: "Each entry is an encrypted NIP-78 application data event. No trash or live sync.",
+  load: (authData) => fetchAllNotesFromNostr(authData),
+  loadCached: async () => [],
+  async save(note, authData) {
+    const result = await saveNoteToNostr(note, authData)
+    clearUserCache(authData)
+    return result
+  },
+  async delete(note, authData) {
+    try {
+      await deleteNoteOnNostr(note, authData)
+      clearUserCache(authData)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Failed to delete note" }
+    }
+  },
+  subscribe: async () => {
+    console.log("[JournalStore] ℹ️ Live sync is not available for kind 30078 storage")
+    return () => {}
+  },
+  export(authData) {
+    return exportNotes(this, authData)
+  },
+}
+
+// Encrypted entries in this browser's localStorage; never published
+const localStore: JournalStore = {
+  id: "local",
+  label: "This device only",
+  description: "Entries are encrypted and kept in this browser's storage. Nothing is published, so they are not on your other devices and are lost if the browser data is cleared. No trash or live sync.",
+  load: (authData) => loadLocalJournal(authData),
+  loadCached: (authData) => loadLocalJournal(authData),
+  save: (note, authData) => saveLocalJournalEntry(note, authData),
+  delete: (note, authData) => deleteLocalJournalEntry(note, authData),
+  subscribe: async () => {
+    console.log("[JournalStore] ℹ️ Live sync is not available for entries kept on this device")
+    return () => {}
+  },
+  export(authData) {
+    return exportNotes(this, authData)
+  },
+}
+
+export const JOURNAL_STORES: Record<JournalStorageBackend, JournalStore> = {
+  kind30001: kind30001Store,
+  giftwrap: giftWrapStore,
+  kind30078: kind30078Store,
+  local: localStore,
+}
+
+/**
+ * The store picked in settings
+ */
+export function getJournalStore(): JournalStore {
+  return JOURNAL_STORES[getJournalSettings().storageBackend] || kind30001Store
+}
@@ -0,0 +1,61 @@
+/**
+ * Journal Sync Cursors - Per-relay high-water marks for incremental sync
+ * Each relay is only asked for events newer than the last time it answered,
+ * and the result is merged into the IndexedDB journal cache.
+ */
+
+// Re-ask this far back to cover clock skew between devices and slow relays
+export const CURSOR_OVERLAP_SECONDS = 10 * 60
+
+// Events published late with an old created_at (e.g. from another device's
+// outbox) fall behind the cursors, so run a full query once in a while
+const FULL_SYNC_INTERVAL_SECONDS = 24 * 60 * 60
+
+export interface JournalSyncState {
+  cursors: Record<string, number> // relay URL -> unix seconds synced up to
+  lastFullSync: number // unix seconds, 0 = never
+}
+
+function getSyncStateStorageKey(pubkey: string): string {
+  return `nostr_journal_sync_cursors_${pubkey}`
+}
+
+export function getJournalSyncState(pubkey: string): JournalSyncState {
+  if (typeof window === "undefined") return { cursors: {}, lastFullSync: 0 }
+
+  try {
+    const stored = localStorage.getItem(getSyncStateStorageKey(pubkey))
+    if (!stored) return { cursors: {}, lastFullSync: 0 }
+
+    const parsed = JSON.parse(stored)
+    return { cursors: parsed.cursors || {}, lastFullSync: parsed.lastFullSync || 0 }
+  } catch {
+    return { cursors: {}, lastFullSync: 0 }
+  }
+}
+
+export function saveJournalSyncState(pubkey: string, state: JournalSyncState): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(getSyncStateStorageKey(pubkey), JSON.stringify(state))
+  } catch (error) {
+    console.error("[JournalSyncCursors] Failed to save sync cursors:", error)
+  }
+}
+
+// Forget all cursors so the next sync fetches everything again
+export function clearJournalSyncState(pubkey: string): void {
+  if (typeof window === "undefined") return
+  localStorage.removeItem(getSyncStateStorageKey(pubkey))
+}
+
+export function isFullSyncDue(state: JournalSyncState, now: number): boolean {
+  return now - state.lastFullSync >= FULL_SYNC_INTERVAL_SECONDS
+}
+
+// `since` for a relay's next query, or undefined to fetch everything from it
+export function getRelaySince(state: JournalSyncState, relay: string): number | undefined {
+  const cursor = state.cursors[relay]
+  return cursor ? Math.max(cursor - CURSOR_OVERLAP_SECONDS, 0) : undefined
+}
@@ -0,0 +1,71 @@
+/**
+ * Journal Tombstones - Local record of deleted journal entries
+ * Kind 5 deletions take time to reach every relay, so deleted d-tags are
+ * remembered locally and hidden until relays confirm the deletion.
+ */
+
+// Tombstones are dropped after this long even if no relay confirmed the deletion
+const TOMBSTONE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+// d-tag -> unix timestamp (seconds) of the deletion
+export type JournalTombstones = Record<string, number>
+
+function getTombstoneStorageKey(pubkey: string): string {
+  return `nostr_journal_tombstones_${pubkey}`
+}
+
+// Load tombstones for a user, dropping expired ones
+export function getJournalTombstones(pubkey: string): JournalTombstones {
+  if (typeof window === "undefined") return {}
+
+  try {
+    const stored = localStorage.getItem(getTombstoneStorageKey(pubkey))
+    if (!stored) return {}
+
+    const tombstones: JournalTombstones = JSON.parse(stored)
+    const cutoff = Math.floor(Date.now() / 1000) - TOMBSTONE_MAX_AGE_SECONDS
+    for (const dTag of Object.keys(tombstones)) {
+      if (tombstones[dTag] < cutoff) {
+        delete tombstones[dTag]
+      }
+    }
+    return tombstones
+  } catch {
+    return {}
+  }
+}
+
+function saveJournalTombstones(pubkey: string, tombstones: JournalTombstones): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(getTombstoneStorageKey(pubkey), JSON.stringify(tombstones))
+  } catch (error) {
+    console.error("[JournalTombstones] Failed to save tombstones:", error)
+  }
+}
+
+// Remember that a d-tag was deleted at the given time
+export function addJournalTombstone(pubkey: string, dTag: string, deletedAt: number): void {
+  const tombstones = getJournalTombstones(pubkey)
+  tombstones[dTag] = Math.max(tombstones[dTag] || 0, deletedAt)
+  saveJournalTombstones(pubkey, tombstones)
+  console.log("[JournalTombstones] 🪦 Tombstoned", dTag)
+}
+
+// Forget tombstones that relays now cover with an address deletion of their own
+export function pruneJournalTombstones(pubkey: string, confirmedDeletions: Map<string, number>): void {
+  const tombstones = getJournalTombstones(pubkey)
+  let changed = false
+  for (const dTag of Object.keys(tombstones)) {
+    const confirmedAt = confirmedDeletions.get(dTag)
+    if (confirmedAt !== undefined && confirmedAt >= tombstones[dTag]) {
+      delete tombstones[dTag]
+      changed = true
+    }
+  }
+  if (changed) {
+    saveJournalTombstones(pubkey, tombstones)
+    console.log("[JournalTombstones] ✅ Relays confirmed deletions, pruned tombstones")
+  }
+}
@@ -1,8 +1,29 @@
 "use client"
 
-import { nip04, SimplePool } from "nostr-tools"
+import { nip04, SimplePool, type Event, type Filter } from "nostr-tools"
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils"
 import type { DecryptedNote } from "./nostr-crypto"
 import { signEventWithRemote } from "./signer-manager"
+import { validateEvent } from "./event-validator"
+import { resolveAddressableEvents, getEventAddress, isNewerVersion, type StaleRelayVersion } from "./addressable-events"
+import { addJournalTombstone, getJournalTombstones, pruneJournalTombstones } from "./journal-tombstones"
+import { journalCache } from "./journal-cache"
+import { getJournalSyncState, saveJournalSyncState, isFullSyncDue, getRelaySince } from "./journal-sync-cursors"
+import { journalOutbox, getRetryDelay, MAX_RELAY_ATTEMPTS, type OutboxEntry, type OutboxBaseVersion, type QueuedNote, type RelayReceipts } from "./journal-outbox"
+import { getJournalSettings } from "./journal-settings"
+import { interpretOkMessage, isPermanentRejection, describeOkResult, RATE_LIMIT_RETRY_DELAY_MS } from "./relay-ok"
+import { getRelayUrls, getJournalStorageRelays } from "./relay-manager"
+import { getRelayListUrls, isRelayListLoaded } from "./relay-list"
+import type { JournalConflict, JournalVersion } from "./journal-conflicts"
+import { nip44EncryptToSelf, nip44DecryptFromSelf } from "./self-encryption"
+import {
+  encryptJournalPayload,
+  decryptJournalPayload,
+  needsReencryption,
+  CURRENT_JOURNAL_ALGORITHM,
+  JOURNAL_ENVELOPE_VERSION,
+  type EnvelopeDecryptResult,
+} from "./journal-envelope"
 
 // Declare window.nostr for TypeScript
 declare global {
@@ -10,6 +31,14 @@ declare global {
     nostr?: {
       signEvent: (event: any) => Promise<any>
       getPublicKey: () => Promise<string>
+      nip04?: {
+        encrypt: (pubkey: string, plaintext: string) => Promise<string>
+        decrypt: (pubkey: string, ciphertext: string) => Promise<string>
+      }
+      nip44?: {
+        encrypt: (pubkey: string, plaintext: string) => Promise<string>
+        decrypt: (pubkey: string, ciphertext: string) => Promise<string>
+      }
     }
   }
 }
@@ -36,8 +65,10 @@ async function getPrivateKeyForEncryption(authData: any): Promise<string> {
   }
 }
 
-// Modern relays that support parameterized replaceable events (kinds 30000-39999)
-const RELAYS = [
+// Modern relays that support parameterized replaceable events (kinds 30000-39999).
+// Used when the user has set neither journal storage relays nor a NIP-65 relay list;
+// see getJournalReadRelays/getJournalWriteRelays.
+const DEFAULT_RELAYS = [
   "wss://relay.damus.io",
   "wss://nos.lol",
   "wss://relay.nostr.band",
@@ -47,23 +78,890 @@ const RELAYS = [
 ]
 
 // Event kinds
-const KIND30001_LIST = 30001 // NIP-51 Generic Lists (for journal entries)
 const DELETION_KIND = 5 // NIP-09 deletion events
 
+// How journal events are laid out: the event kind plus the d-tag scheme for
+// entries and for the trash list. Layouts sharing a kind must differ in entry prefix.
+interface JournalLayout {
+  kind: number
+  entryDTagPrefix: string // An entry's d-tag is this prefix plus the note id
+  trashDTag: string // Deliberately outside the entry prefix
+  // The prefix is followed by a keyed hash of the note id instead of the id itself.
+  // Note ids are creation timestamps, which would otherwise be public.
+  opaqueIds?: boolean
+}
+
+// NIP-78 application-specific data, with d-tags that reveal nothing about the entry
+const NIP78_OPAQUE_LAYOUT: JournalLayout = {
+  kind: 30078,
+  entryDTagPrefix: "nostr-journal/e/",
+  trashDTag: "nostr-journal/trash",
+  opaqueIds: true,
+}
+
+// NIP-78 with note ids in the d-tag
+const NIP78_LAYOUT: JournalLayout = {
+  kind: 30078,
+  entryDTagPrefix: "nostr-journal/entry/",
+  trashDTag: "nostr-journal/trash",
+}
+
+// NIP-51 generic lists - deprecated, and other clients may show or overwrite them as lists
+const NIP51_LAYOUT: JournalLayout = {
+  kind: 30001,
+  entryDTagPrefix: "journal-",
+  trashDTag: "nostr-journal-trash",
+}
+
+// Layout new events are written in
+const JOURNAL_LAYOUT = NIP78_OPAQUE_LAYOUT
+
+// Layouts read during the transition; entries in older ones are moved to
+// JOURNAL_LAYOUT by migrateJournalEntries
+const READABLE_LAYOUTS: JournalLayout[] = [JOURNAL_LAYOUT, NIP78_LAYOUT, NIP51_LAYOUT]
+const JOURNAL_KINDS = Array.from(new Set(READABLE_LAYOUTS.map(layout => layout.kind)))
+
+// d-tag of the encrypted journal secret, the key opaque entry d-tags are hashed with
+const JOURNAL_SECRET_D_TAG = "nostr-journal/secret"
+
+// Hex characters of the keyed hash kept in an opaque d-tag (128 bits)
+const OPAQUE_ID_LENGTH = 32
+
+// Events asked for per relay page; older ones are paged in with `until`
+const JOURNAL_PAGE_SIZE = 500
+
+// Entries decrypted before the ones readable so far are handed to the UI
+const DECRYPT_BATCH_SIZE = 50
+
+
+// Once the quorum is in, how long slower relays get before the load stops waiting for them
+const SLOW_RELAY_GRACE_MS = 3000
+
+// While events stream in, progress and provisional notes are updated at most this often
+const STREAM_UPDATE_INTERVAL_MS = 300
+
+// How long a save waits for relays to report the current version of an entry
+const CONFLICT_CHECK_WAIT_MS = 3000
+
+// How long a repair scan waits for each page from a relay
+const REPAIR_QUERY_WAIT_MS = 8000
+
+// How long fetchAllPages waits for each page from a relay
+const PAGED_FETCH_WAIT_MS = 8000
+
+// Entry moved to the trash, rebuilt from its last version before it was trashed
+export interface TrashedJournalEntry {
+  note: DecryptedNote
+  trashedAt: number // unix seconds
+}
+
+// What the trash list event stores per entry. The entry's own events stay on
+// relays until it is purged, so the list only points at them; a full copy of
+// every note would soon outgrow the NIP-44 plaintext limit.
+interface TrashListItem {
+  noteId: string
+  eventId?: string
+  trashedAt: number // unix seconds
+}
+
+// Trash list from the last load. Not writable if it was stored in a format this build can't read.
+let journalTrashItems: TrashListItem[] = []
+let journalTrashWritable = true
+// Last version of each trashed entry seen while loading (note id -> note)
+let trashedNotes = new Map<string, DecryptedNote>()
+// Trashed entries whose note could be rebuilt, as shown in the trash view
+let journalTrash: TrashedJournalEntry[] = []
+let journalTrashEventId: string | null = null
+
+// Versions of entries (and of the trash list) still in an older layout, from the
+// last load; migrateJournalEntries moves them to JOURNAL_LAYOUT and deletes them
+let oldLayoutEvents = new Map<string, Event[]>() // note id -> events
+let oldLayoutTrashEvents: Event[] = []
+
+// Event the loader refused to use, reported in the diagnostics view
+export interface RejectedJournalEvent {
+  eventId: string
+  kind: number
+  pubkey: string
+  reason: string
+  seenAt: Date
+}
+
+export interface JournalLoadDiagnostics {
+  loadedAt: Date
+  receivedEvents: number
+  acceptedEvents: number
+  rejectedEvents: RejectedJournalEvent[]
+  // Relays that served an older version of an entry than the newest one found
+  staleVersions: StaleRelayVersion[]
+}
+
+let lastLoadDiagnostics: JournalLoadDiagnostics | null = null
+
+export interface JournalLoadOptions {
+  onProgress?: (progress: JournalLoadProgress) => void
+  onPage?: (notes: DecryptedNote[]) => void // Provisional entries as events arrive and are decrypted
+}
+
+export interface JournalSaveResult {
+  success: boolean
+  eventId?: string
+  eventCreatedAt?: number
+  pending?: boolean // Kept in the outbox until the publish quorum of relays accepts it
+  relays?: RelayReceipts // What each relay answered to this save
+  conflict?: JournalConflict // Held because another device changed the entry first
+  error?: string
+}
+
+export type RelayLoadStatus = "loading" | "complete" | "failed" | "abandoned"
+
+export interface JournalLoadProgress {
+  receivedEvents: number
+  relaysDone: number // Relays that reached EOSE on every page
+  relaysTotal: number
+  relays: Record<string, { status: RelayLoadStatus; events: number }>
+}
+
+// Every event id seen for each d-tag during the last load, so deletions can name them all
+const knownVersionIds = new Map<string, Set<string>>()
+
+// Events signed on this device this session; relays returning them is not another device's edit
+const locallySignedEventIds = new Set<string>()
+
+// Decrypted entries by event id; events are immutable, so an unchanged journal is never decrypted twice
+const decryptedNotes = new Map<string, DecryptedNote>()
+
+// Journal secret per pubkey, read (or created) once per session
+const journalSecrets = new Map<string, Promise<CryptoKey>>()
+
+// Note ids behind the opaque d-tags hashed or decrypted this session
+const entryIdsByDTag = new Map<string, string>()
+
+/**
+ * Diagnostics from the most recent journal load (null before the first load)
+ */
+export function getJournalLoadDiagnostics(): JournalLoadDiagnostics | null {
+  return lastLoadDiagnostics
+}
+
+/**
+ * Check that an event was authored and signed by the expected pubkey.
+ * Returns the rejection reason, or null if the event is authentic.
+ */
+function getAuthenticityProblem(event: any, expectedPubkey: string): string | null {
+  if (event.pubkey !== expectedPubkey) {
+    return `Authored by ${String(event.pubkey).slice(0, 16)}..., not the logged-in user`
+  }
+  const validation = validateEvent(event)
+  if (!validation.isValid) {
+    return validation.errors.join(", ")
+  }
+  return null
+}
+
+/**
+ * Pubkey the active signer will sign with (can differ from authData for extension/remote signers)
+ */
+export async function getSignerPubkey(authData: any): Promise<string> {
+  if (authData.authMethod === "extension" && window.nostr) {
+    return window.nostr.getPublicKey()
+  }
+  if (authData.authMethod === "remote") {
+    const { remoteSignerManager } = await import("./remote-signer-manager")
+    if (remoteSignerManager.isAvailable()) {
+      const sessionInfo = remoteSignerManager.getSessionInfo()
+      if (sessionInfo.userPubkey) {
+        return sessionInfo.userPubkey
+      }
+    }
+  }
+  return authData.pubkey
+}
+
+/**
+ * Store a freshly signed event in the local cache as not yet published
+ */
+async function cacheSignedEvent(signedEvent: Event): Promise<void> {
+  locallySignedEventIds.add(signedEvent.id)
+  try {
+    await journalCache.putEvents([signedEvent], { pending: true })
+  } catch (error) {
+    console.warn("[Kind30001Journal] ⚠️ Could not cache signed event:", error)
+  }
+}
+
+/**
+ * Encrypt a note and sign it as a journal event in the current layout
+ */
+async function buildSignedJournalEvent(note: DecryptedNote, authData: any, actualPubkey: string): Promise<Event> {
+  // Encrypt the journal content to our own key using NIP-44
+  console.log("[Kind30001Journal] 🔐 Encrypting content...")
+  const encryptedContent = await encryptKind30001Content(note, authData, actualPubkey)
+  console.log("[Kind30001Journal] ✅ Content encrypted, length:", encryptedContent.length)
+  
+  // Create unique identifier for this journal entry
+  const dTag = await getEntryDTag(note.id || String(Date.now()), authData)
+  
+  // Addressable event in the current journal layout
+  const unsignedEvent = {
+    kind: JOURNAL_LAYOUT.kind,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      ["d", dTag],
+      ["p", actualPubkey],  // Use actualPubkey for consistent filtering
+    ],
+    content: encryptedContent,
+    pubkey: actualPubkey,
+  }
+  
+  console.log("[Kind30001Journal] 📝 Created unsigned event:", {
+    kind: unsignedEvent.kind,
+    tags: unsignedEvent.tags,
+    pubkey: unsignedEvent.pubkey,
+    contentLength: unsignedEvent.content.length
+  })
+
+  // Sign the event
+  console.log("[Kind30001Journal] ✍️  Signing event...")
+  const signedEvent = await signEventWithRemote(unsignedEvent, authData)
+  console.log("[Kind30001Journal] ✅ Event signed, ID:", signedEvent.id)
+  return signedEvent
+}
+
+/**
+ * Queue a note that could not be signed (or that conflicts with a newer relay
+ * version); it is signed on a later attempt. It is NIP-44 encrypted to
+ * ourselves if the signer can still encrypt. If not (extension locked, remote
+ * signer gone) the note is NOT encrypted: it sits in IndexedDB as plain JSON
+ * until the signer is back.
+ */
+async function queueUnsignedNote(
+  note: DecryptedNote,
+  address: string,
+  pubkey: string,
+  authData: any,
+  reason: unknown,
+  base?: OutboxBaseVersion,
+  conflictEvent?: Event,
+): Promise<OutboxEntry> {
+  const now = Date.now()
+  const entry: OutboxEntry = {
+    address,
+    noteId: note.id,
+    pubkey,
+    state: "unsigned",
+    queuedNote: await queueNotePayload(note, authData, pubkey),
+    attempts: 1,
+    nextAttemptAt: now + getRetryDelay(1),
+    lastError: reason instanceof Error ? reason.message : "Signer unavailable",
+    relays: {},
+    createdAt: now,
+    base,
+    conflict: conflictEvent ? { event: conflictEvent, detectedAt: now } : undefined,
+  }
+  await journalOutbox.put(entry)
+  return entry
+}
+
+/**
+ * The relay version a note was last loaded or saved as, which its next edit is based on
+ */
+async function getBaseVersion(note: DecryptedNote, address: string): Promise<OutboxBaseVersion | undefined> {
+  if (!note.eventId) return undefined
+  const cached = await journalCache.getEvent(address)
+  return {
+    eventId: note.eventId,
+    // Unknown for notes loaded before this was tracked; any other relay version then counts as newer
+    createdAt: note.eventCreatedAt ?? 0,
+    event: cached?.event.id === note.eventId ? cached.event : undefined,
+  }
+}
+
+/**
+ * Newest relay version of an address if it moved on from `base` - i.e. another
+ * device saved the entry after the version this edit was made from
+ */
+async function findNewerRemoteVersion(address: string, base: OutboxBaseVersion | undefined, networkEvents?: Event[]): Promise<Event | null> {
+  if (!base) return null
+  
+  const [kind, pubkey, ...dTagParts] = address.split(":")
+  const events = networkEvents ?? await getPool().querySync(
+    getJournalReadRelays(),
+    { kinds: [Number(kind)], authors: [pubkey], "#d": [dTagParts.join(":")] },
+    { maxWait: CONFLICT_CHECK_WAIT_MS },
+  )
+  const remoteVersions = events.filter(event =>
+    getEventAddress(event) === address &&
+    !locallySignedEventIds.has(event.id) &&
+    !getAuthenticityProblem(event, pubkey)
+  )
+  const [newest] = resolveAddressableEvents(remoteVersions).latest
+  if (!newest || newest.id === base.eventId) return null
+  
+  const baseVersion = { id: base.eventId, kind: Number(kind), pubkey, created_at: base.createdAt, tags: [] }
+  return isNewerVersion(newest, baseVersion) ? newest : null
+}
+
+/**
+ * Relays that must accept an event before it counts as published (from settings,
+ * within the number of relays written to)
+ */
+function getPublishQuorum(): number {
+  return Math.min(Math.max(1, getJournalSettings().publishQuorum), getJournalWriteRelays().length)
+}
+
+function countAccepted(relays: RelayReceipts): number {
+  return getJournalWriteRelays().filter(relay => relays[relay]?.status === "ok").length
+}
+
+/**
+ * Send an event to relays and record what each one answered on top of `relays`
+ */
+async function publishToRelays(targets: string[], event: Event, relays: RelayReceipts = {}): Promise<RelayReceipts> {
+  const now = Date.now()
+  const results = await Promise.allSettled(getPool().publish(targets, event))
+  const receipts = { ...relays }
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      receipts[targets[index]] = { status: "ok", message: result.value, at: now }
+      return
+    }
+    // nostr-tools rejects with the OK message ("blocked: ...") when a relay says false,
+    // and with "publish timed out" / "connection timed out" when it never answers
+    const message = result.reason instanceof Error ? result.reason.message : String(result.reason)
+    if (/timed out/.test(message)) {
+      receipts[targets[index]] = { status: "timeout", message, at: now }
+      return
+    }
+    const ok = interpretOkMessage(targets[index], false, message)
+    receipts[targets[index]] = { status: ok.accepted ? "ok" : "failed", message, prefix: ok.prefix, at: now }
+  })
+  return receipts
+}
+
+export interface OutboxPublishOptions {
+  base?: OutboxBaseVersion
+  noteId?: string
+  // Account the event is queued under, when it is signed by another key (a gift wrap's throwaway key)
+  owner?: string
+}
+
+/**
+ * Queue a signed event and make a first publish attempt. Accepted once the
+ * publish quorum of relays has it.
+ */
+export async function publishThroughOutbox(
+  signedEvent: Event,
+  authData: any,
+  options: OutboxPublishOptions = {},
+): Promise<{ accepted: boolean; relays: RelayReceipts }> {
+  const { base, noteId, owner = signedEvent.pubkey } = options
+  const entry: OutboxEntry = {
+    address: getEventAddress(signedEvent),
+    noteId,
+    pubkey: owner,
+    state: "signed",
+    event: signedEvent,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    relays: {},
+    createdAt: Date.now(),
+    base,
+  }
+  try {
+    await journalOutbox.put(entry)
+  } catch (error) {
+    console.warn("[Kind30001Journal] ⚠️ Could not persist outbox entry:", error)
+  }
+  const result = await attemptOutboxEntry(entry, authData)
+  return { accepted: result.accepted, relays: result.relays || {} }
+}
+
+/**
+ * One publish attempt for an outbox entry: sign it if needed, send it to every
+ * relay that hasn't accepted it yet and record per-relay results
+ */
+async function attemptOutboxEntry(
+  entry: OutboxEntry,
+  authData: any,
+): Promise<{ accepted: boolean; eventId?: string; eventCreatedAt?: number; relays?: RelayReceipts; conflict?: boolean }> {
+  const now = Date.now()
+  const attempts = entry.attempts + 1
+  let signedEntry = entry
+  
+  // A retried edit may have been overtaken by another device while it waited.
+  // The first attempt is covered by the check in saveJournalAsKind30001.
+  const reachedRelay = Object.values(entry.relays).some(relay => relay.status === "ok")
+  if (entry.attempts > 0 && !reachedRelay) {
+    const remote = await findNewerRemoteVersion(entry.address, entry.base)
+    if (remote) {
+      console.warn("[Kind30001Journal] ⚠️ Relays have a newer version of", entry.address, "- holding local edit until the conflict is resolved")
+      await settleOutboxEntry(entry, holdForConflict(entry, remote))
+      return { accepted: false, conflict: true }
+    }
+  }
+  
+  if (entry.state === "unsigned" && entry.queuedNote) {
+    try {
+      const note = await readQueuedNote(entry.queuedNote, authData, entry.pubkey)
+      const signedEvent = await buildSignedJournalEvent(note, authData, entry.pubkey)
+      await cacheSignedEvent(signedEvent)
+      signedEntry = { ...entry, state: "signed", event: signedEvent, queuedNote: undefined }
+    } catch (error) {
+      console.warn("[Kind30001Journal] ⚠️ Outbox entry still can't be signed:", entry.address, error)
+      await settleOutboxEntry(entry, {
+        ...entry,
+        attempts,
+        nextAttemptAt: now + getRetryDelay(attempts),
+        lastError: error instanceof Error ? error.message : "Signer unavailable",
+      })
+      return { accepted: false }
+    }
+  }
+  
+  const event = signedEntry.event
+  const writeRelays = getJournalWriteRelays()
+  const missing = writeRelays.filter(relay => signedEntry.relays[relay]?.status !== "ok")
+  // Relays that refused for good (blocked, invalid, ...) are only tried again when nothing else is left
+  const retryable = missing.filter(relay => !isPermanentRejection(signedEntry.relays[relay]?.prefix))
+  const targets = retryable.length > 0 ? retryable : missing
+  const relays = await publishToRelays(targets, event, signedEntry.relays)
+  
+  const quorum = getPublishQuorum()
+  const acceptedCount = countAccepted(relays)
+  const accepted = acceptedCount >= quorum
+  const acceptedByAll = acceptedCount === writeRelays.length
+  console.log("[Kind30001Journal] 📡 Outbox attempt", attempts, "for", event.id, "-", acceptedCount, "of", writeRelays.length, "relays accepted (quorum", quorum + ")")
+  
+  if (accepted) {
+    try {
+      await journalCache.markPublished(signedEntry.address, event.id)
+    } catch (error) {
+      console.warn("[Kind30001Journal] ⚠️ Could not update local cache:", error)
+    }
+  }
+  
+  // Done once every relay has it, or once the quorum has it and the rest keep failing or refuse it
+  const onlyRefusalsLeft = writeRelays.every(relay => relays[relay]?.status === "ok" || isPermanentRejection(relays[relay]?.prefix))
+  const done = acceptedByAll || (accepted && (attempts >= MAX_RELAY_ATTEMPTS || onlyRefusalsLeft))
+  await settleOutboxEntry(entry, done ? null : {
+    ...signedEntry,
+    relays,
+    attempts,
+    nextAttemptAt: now + getRetryDelay(attempts),
+    lastError: accepted ? undefined : `${acceptedCount} of the ${quorum} relays needed accepted the event`,
+  })
+  
+  return { accepted, eventId: event.id, eventCreatedAt: event.created_at, relays }
+}
+
+async function queueNotePayload(note: DecryptedNote, authData: any, pubkey: string): Promise<QueuedNote> {
+  const plaintext = JSON.stringify(note)
+  try {
+    return { scheme: "nip44", payload: await nip44EncryptToSelf(plaintext, authData, pubkey) }
+  } catch (error) {
+    console.warn("[Kind30001Journal] ⚠️ Signer can't encrypt either, queueing the edit UNENCRYPTED on this device:", error)
+    return { scheme: "plaintext", payload: plaintext }
+  }
+}
+
+/**
+ * Read a note queued before it could be signed
+ */
+async function readQueuedNote(queuedNote: QueuedNote, authData: any, pubkey: string): Promise<DecryptedNote> {
+  const stored = JSON.parse(
+    queuedNote.scheme === "nip44" ? await nip44DecryptFromSelf(queuedNote.payload, authData, pubkey) : queuedNote.payload
+  )
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    lastModified: new Date(stored.lastModified || stored.createdAt),
+  }
+}
+
+function holdForConflict(entry: OutboxEntry, remote: Event): OutboxEntry {
+  return {
+    ...entry,
+    conflict: { event: remote, detectedAt: Date.now() },
+    lastError: "Edited on another device since this change was made",
+  }
+}
+
+async function settleOutboxEntry(attempted: OutboxEntry, next: OutboxEntry | null): Promise<void> {
+  try {
+    await journalOutbox.settle(attempted, next)
+  } catch (error) {
+    console.warn("[Kind30001Journal] ⚠️ Could not update outbox:", error)
+  }
+}
+
+let outboxProcessing = false
+
+/**
+ * Retry every outbox entry that is due. Returns the entries that reached a relay
+ * on this pass and how many entries are still queued.
+ */
+export async function processJournalOutbox(authData: any): Promise<{
+  published: { noteId: string; eventId: string; eventCreatedAt: number; relays: RelayReceipts }[]
+  conflicts: string[]
+  queueLength: number
+}> {
+  const pubkey = await getSignerPubkey(authData)
+  const published: { noteId: string; eventId: string; eventCreatedAt: number; relays: RelayReceipts }[] = []
+  const conflicts: string[] = []
+  
+  if (!outboxProcessing) {
+    outboxProcessing = true
+    try {
+      await adoptPendingCachedEvents(pubkey)
+      
+      const now = Date.now()
+      for (const entry of await journalOutbox.getEntries(pubkey)) {
+        // Conflicting edits wait for the user
+        if (entry.conflict || entry.nextAttemptAt > now) continue
+        const alreadyAccepted = countAccepted(entry.relays) >= getPublishQuorum()
+        const result = await attemptOutboxEntry(entry, authData)
+        const noteId = getOutboxNoteId(entry)
+        if (!noteId) continue
+        if (result.conflict) {
+          conflicts.push(noteId)
+        } else if (result.accepted && !alreadyAccepted && result.eventId && result.eventCreatedAt) {
+          published.push({ noteId, eventId: result.eventId, eventCreatedAt: result.eventCreatedAt, relays: result.relays || {} })
+        }
+      }
+    } catch (error) {
+      console.error("[Kind30001Journal] ❌ Outbox processing failed:", error)
+    } finally {
+      outboxProcessing = false
+    }
+  }
+  
+  return { published, conflicts, queueLength: await getJournalOutboxLength(authData, pubkey) }
+}
+
+/**
+ * Number of journal events still waiting in the outbox
+ */
+export async function getJournalOutboxLength(authData: any, pubkey?: string): Promise<number> {
+  const entries = await journalOutbox.getEntries(pubkey || (await getSignerPubkey(authData)))
+  return entries.length
+}
+
+/**
+ * Cached events still marked pending but missing from the outbox (e.g. the
+ * page closed between the two writes) are queued again
+ */
+async function adoptPendingCachedEvents(pubkey: string): Promise<void> {
+  const queued = new Set((await journalOutbox.getEntries(pubkey)).map(entry => entry.address))
+  for (const cached of await journalCache.getPendingEvents(pubkey)) {
+    if (queued.has(cached.address)) continue
+    await journalOutbox.put({
+      address: cached.address,
+      pubkey,
+      state: "signed",
+      event: cached.event,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      relays: {},
+      createdAt: Date.now(),
+    })
+  }
+}
+
 // Global pool for connection reuse
 let globalPool: SimplePool | null = null
 
-function getPool(): SimplePool {
-  if (!globalPool) {
-    globalPool = new SimplePool()
+function getPool(): SimplePool {
+  if (!globalPool) {
+    globalPool = new SimplePool()
+    // Record which relays delivered each event so stale relays can be flagged
+    globalPool.trackRelays = true
+  }
+  return globalPool
+}
+
+/**
+ * Relays the journal loads from: the journal storage relays, else the user's
+ * NIP-65 read relays, else the defaults
+ */
+export function getJournalReadRelays(): string[] {
+  return getJournalStorageRelays() ?? getRelayListUrls("read") ?? DEFAULT_RELAYS
+}
+
+/**
+ * Relays the journal publishes to: the journal storage relays, else the user's
+ * NIP-65 write relays, else the defaults
+ */
+function getJournalWriteRelays(): string[] {
+  return getJournalStorageRelays() ?? getRelayListUrls("write") ?? DEFAULT_RELAYS
+}
+
+function getDTag(event: Event): string {
+  return event.tags.find(tag => tag[0] === "d")?.[1] || ""
+}
+
+/**
+ * Layout a journal entry address belongs to, or undefined for anything else
+ * (the trash list, the journal secret, other apps' data under the same kind)
+ */
+function getEntryLayout(kind: number, dTag: string): JournalLayout | undefined {
+  return READABLE_LAYOUTS.find(layout => layout.kind === kind && dTag.startsWith(layout.entryDTagPrefix))
+}
+
+function isJournalEntryEvent(event: Event): boolean {
+  return getEntryLayout(event.kind, getDTag(event)) !== undefined
+}
+
+async function getEntryDTag(noteId: string, authData: any, layout: JournalLayout = JOURNAL_LAYOUT): Promise<string> {
+  if (!layout.opaqueIds) return `${layout.entryDTagPrefix}${noteId}`
+
+  const secret = await getJournalSecret(authData)
+  const mac = await crypto.subtle.sign("HMAC", secret, new TextEncoder().encode(noteId))
+  const dTag = `${layout.entryDTagPrefix}${bytesToHex(new Uint8Array(mac)).slice(0, OPAQUE_ID_LENGTH)}`
+  entryIdsByDTag.set(dTag, noteId)
+  return dTag
+}
+
+async function getEntryAddress(pubkey: string, noteId: string, authData: any, layout: JournalLayout = JOURNAL_LAYOUT): Promise<string> {
+  return `${layout.kind}:${pubkey}:${await getEntryDTag(noteId, authData, layout)}`
+}
+
+/**
+ * Note id of a journal entry address, or null for anything else. Opaque
+ * d-tags only resolve once the entry was decrypted or hashed this session.
+ */
+function getAddressNoteId(address: string): string | null {
+  const [kind, , ...dTagParts] = address.split(":")
+  const dTag = dTagParts.join(":")
+  const layout = getEntryLayout(Number(kind), dTag)
+  if (!layout) return null
+  return layout.opaqueIds ? entryIdsByDTag.get(dTag) ?? null : dTag.slice(layout.entryDTagPrefix.length)
+}
+
+function getEntryNoteId(event: Event): string | null {
+  return getAddressNoteId(getEventAddress(event))
+}
+
+function getOutboxNoteId(entry: OutboxEntry): string | null {
+  return entry.noteId ?? getAddressNoteId(entry.address)
+}
+
+function isTrashEvent(event: Event): boolean {
+  return READABLE_LAYOUTS.some(layout => layout.kind === event.kind && layout.trashDTag === getDTag(event))
+}
+
+function isCurrentTrashEvent(event: Event): boolean {
+  return event.kind === JOURNAL_LAYOUT.kind && getDTag(event) === JOURNAL_LAYOUT.trashDTag
+}
+
+/**
+ * HMAC key for opaque d-tags. It is random, stored NIP-44 encrypted to
+ * ourselves so every device hashes note ids the same way.
+ */
+function getJournalSecret(authData: any): Promise<CryptoKey> {
+  const pubkey = authData.pubkey
+  let secret = journalSecrets.get(pubkey)
+  if (!secret) {
+    secret = loadJournalSecret(authData)
+    journalSecrets.set(pubkey, secret)
+    // Signer or relays unavailable: let the next call try again
+    secret.catch(() => journalSecrets.delete(pubkey))
+  }
+  return secret
+}
+
+async function loadJournalSecret(authData: any): Promise<CryptoKey> {
+  const pubkey = await getSignerPubkey(authData)
+  const filter: Filter = { kinds: [JOURNAL_LAYOUT.kind], authors: [pubkey], "#d": [JOURNAL_SECRET_D_TAG] }
+  const cached = await journalCache.getEvent(`${JOURNAL_LAYOUT.kind}:${pubkey}:${JOURNAL_SECRET_D_TAG}`)
+  const remote = await queryAnsweringRelays(getJournalReadRelays(), filter, CONFLICT_CHECK_WAIT_MS)
+  const [newest] = resolveAddressableEvents([
+    ...(cached ? [cached.event] : []),
+    ...remote.events.filter(event => !getAuthenticityProblem(event, pubkey)),
+  ]).latest
+
+  if (newest) {
+    const decrypted = await decryptJournalPayload(newest.content, authData, pubkey)
+    if (decrypted.status !== "ok") {
+      throw new Error("Could not read the journal secret")
+    }
+    await journalCache.putEvents([newest])
+    return importJournalSecret(JSON.parse(decrypted.plaintext).secret)
+  }
+
+  // Unreachable relays come back empty too, and a secret created next to an existing
+  // one would move the whole journal. Only create one once the user's relays are
+  // known and at least one of them answered that it has none.
+  if (!getJournalStorageRelays() && !isRelayListLoaded()) {
+    throw new Error("Relay list not loaded yet, not creating a journal secret")
+  }
+  if (remote.answered === 0) {
+    throw new Error("No relay answered, not creating a journal secret")
+  }
+
+  // First opaque entry for this account. Should another device create one at the same
+  // time, the newer secret wins and entries hashed with the other are moved by migrateJournalEntries.
+  console.log("[Kind30001Journal] 🔑 Creating journal secret")
+  const secret = bytesToHex(crypto.getRandomValues(new Uint8Array(32)))
+  const unsignedEvent = {
+    kind: JOURNAL_LAYOUT.kind,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      ["d", JOURNAL_SECRET_D_TAG],
+      ["p", pubkey],
+    ],
+    content: await encryptJournalPayload(JSON.stringify({ secret }), authData, pubkey),
+    pubkey,
+  }
+  const signedEvent = await signEventWithRemote(unsignedEvent, authData)
+  await cacheSignedEvent(signedEvent)
+  await publishThroughOutbox(signedEvent, authData)
+  return importJournalSecret(secret)
+}
+
+function importJournalSecret(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new Uint8Array(hexToBytes(secret)), { name: "HMAC", hash: "SHA-256" }, false, ["sign"])
+}
+
+/**
+ * Forget everything read or decrypted for the current user (on logout), so
+ * the next account starts from a clean slate. The IndexedDB cache, outbox and
+ * sync cursors are kept per pubkey and stay.
+ */
+export function resetJournalState(): void {
+  journalSecrets.clear()
+  entryIdsByDTag.clear()
+  decryptedNotes.clear()
+  knownVersionIds.clear()
+  locallySignedEventIds.clear()
+  journalTrashItems = []
+  trashedNotes = new Map()
+  journalTrash = []
+  journalTrashEventId = null
+  journalTrashWritable = true
+  oldLayoutEvents = new Map()
+  oldLayoutTrashEvents = []
+  lastLoadDiagnostics = null
+}
+
+// Position of one backward-paginated query (one filter on one relay)
+interface RelayPageCursor {
+  relay: string
+  filter: Filter
+  until?: number
+  seenIds: Set<string>
+  done: boolean
+}
+
+type RelaySubscription = ReturnType<SimplePool["subscribeMany"]>
+
+/**
+ * Stream the next older page for a cursor, handing over each new event as it
+ * arrives. Resolves with whether the relay reached EOSE. The cursor is
+ * exhausted once a page brings nothing new (a short page is not enough: relays
+ * cap `limit` themselves).
+ */
+function streamNextPage(
+  pool: SimplePool,
+  cursor: RelayPageCursor,
+  onEvent: (event: Event) => void,
+  subscriptions: Set<RelaySubscription>,
+): Promise<boolean> {
+  const filter = cursor.until !== undefined ? { ...cursor.filter, until: cursor.until } : cursor.filter
+  
+  return new Promise(resolve => {
+    let fresh = 0
+    let oldest = Infinity
+    let settled = false
+    
+    const finish = (eose: boolean) => {
+      if (settled) return
+      settled = true
+      subscriptions.delete(subscription)
+      if (eose && fresh === 0) {
+        cursor.done = true
+      } else if (eose) {
+        // `until` is inclusive, so events sharing the oldest second are asked for again and skipped
+        cursor.until = oldest
+      }
+      resolve(eose)
+    }
+    
+    const subscription = pool.subscribeMany([cursor.relay], filter, {
+      onevent: (event) => {
+        oldest = Math.min(oldest, event.created_at)
+        if (cursor.seenIds.has(event.id)) return
+        cursor.seenIds.add(event.id)
+        fresh++
+        onEvent(event)
+      },
+      oneose: () => {
+        finish(true)
+        subscription.close()
+      },
+      // Closed before EOSE: connection failed, the relay refused, or the load gave up on it
+      onclose: () => finish(false),
+    })
+    subscriptions.add(subscription)
+  })
+}
+
+/**
+ * Ask each relay for one page of `filter`. Also counts the relays that answered
+ * with EOSE within `maxWait`: querySync can't tell "nothing there" from a relay
+ * it never reached.
+ */
+async function queryAnsweringRelays(relays: string[], filter: Filter, maxWait: number): Promise<{ events: Event[]; answered: number }> {
+  const pool = getPool()
+  const eventsById = new Map<string, Event>()
+  const subscriptions = new Set<RelaySubscription>()
+  const reachedEose = await Promise.all(relays.map(relay => withPageTimeout(
+    streamNextPage(pool, { relay, filter, seenIds: new Set(), done: false }, event => eventsById.set(event.id, event), subscriptions),
+    maxWait,
+  )))
+  subscriptions.forEach(subscription => subscription.close())
+  return { events: Array.from(eventsById.values()), answered: reachedEose.filter(Boolean).length }
+}
+
+/**
+ * Every event matching `filter`, paging each relay backwards with `until` so
+ * relay-side limits can't cut the result short. A relay that doesn't finish a
+ * page within `maxWait` is left with what it sent so far.
+ */
+export async function fetchAllPages(relays: string[], filter: Filter, maxWait = PAGED_FETCH_WAIT_MS): Promise<Event[]> {
+  const pool = getPool()
+  const eventsById = new Map<string, Event>()
+  const subscriptions = new Set<RelaySubscription>()
+  
+  await Promise.all(relays.map(async relay => {
+    const cursor: RelayPageCursor = { relay, filter: { limit: JOURNAL_PAGE_SIZE, ...filter }, seenIds: new Set(), done: false }
+    while (!cursor.done) {
+      const reachedEose = await withPageTimeout(streamNextPage(pool, cursor, event => eventsById.set(event.id, event), subscriptions), maxWait)
+      if (!reachedEose) {
+        console.warn("[Kind30001Journal] ⚠️ Relay did not finish a page, using what it sent:", relay)
+        return
+      }
+    }
+  }))
+  subscriptions.forEach(subscription => subscription.close())
+  return Array.from(eventsById.values())
+}
+
+// Resolves false when the page takes longer than `maxWait`
+async function withPageTimeout(page: Promise<boolean>, maxWait: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(false), maxWait) })
+  try {
+    return await Promise.race([page, timedOut])
+  } finally {
+    clearTimeout(timer)
   }
-  return globalPool
 }
 
 /**
- * Load all journal entries from Kind 30001 Generic Lists
+ * Load all journal entries in every readable layout
  */
-export async function loadJournalFromKind30001(authData: any): Promise<DecryptedNote[]> {
+export async function loadJournalFromKind30001(authData: any, options: JournalLoadOptions = {}): Promise<DecryptedNote[]> {
   if (!authData?.pubkey) {
     console.log("[Kind30001Journal] No authData or pubkey provided")
     return []
@@ -100,70 +998,353 @@ export async function loadJournalFromKind30001(authData: any): Promise<Decrypted
     
     console.log("[Kind30001Journal] 🎯 FINAL PUBKEY FOR QUERY:", actualPubkey)
     
-    // Query for Kind 30001 events with the ACTUAL user pubkey in p-tag
-    console.log("[Kind30001Journal] Querying relays for Kind 30001 events with p-tag:", actualPubkey)
-    console.log("[Kind30001Journal] Query filters:", {
-      kinds: [KIND30001_LIST],
-      "#p": [actualPubkey],
-      limit: 1000
-    })
+    // Cached events hold everything synced so far, so each relay is only asked for
+    // what is newer than its cursor. Without a cache (or when a periodic full
+    // sync is due) everything is fetched again.
+    const cachedListEvents = (await journalCache.getEvents(actualPubkey))
+      .map(entry => entry.event)
+      .filter(event => !getAuthenticityProblem(event, actualPubkey))
+    const syncStartedAt = Math.floor(Date.now() / 1000)
+    const syncState = getJournalSyncState(actualPubkey)
+    const incremental = cachedListEvents.length > 0 && !isFullSyncDue(syncState, syncStartedAt)
     
-    // Use pool.querySync with p-tag filter for consistent user identification
-    const listEvents = await pool.querySync(RELAYS, {
-      kinds: [KIND30001_LIST],
+    // Query for Kind 30001 events authored by the ACTUAL user pubkey
+    // (filtering on #p alone lets anyone inject entries by p-tagging us)
+    const journalFilter: Filter = {
+      kinds: JOURNAL_KINDS,
+      authors: [actualPubkey],
       "#p": [actualPubkey],
-      limit: 1000
-    })
+      limit: JOURNAL_PAGE_SIZE
+    }
+    const deletionFilter: Filter = {
+      kinds: [DELETION_KIND],
+      authors: [actualPubkey],
+      limit: JOURNAL_PAGE_SIZE
+    }
+    console.log("[Kind30001Journal] Querying relays for Kind 30001 events by author:", actualPubkey, incremental ? "(incremental)" : "(full)")
     
-    console.log("[Kind30001Journal] Found", listEvents.length, "Kind 30001 list events")
+    // Each relay is paged backwards with `until` on its own, streaming events as
+    // they arrive, so a slow relay holds up neither the others nor the UI
+    const readRelays = getJournalReadRelays()
+    // Relays that must deliver everything (EOSE on every page) before the journal counts as loaded
+    const loadQuorum = Math.ceil(readRelays.length / 2)
+    const pageCursors: RelayPageCursor[] = readRelays.flatMap(relay => {
+      const since = incremental ? getRelaySince(syncState, relay) : undefined
+      return [journalFilter, deletionFilter].map(filter => ({
+        relay,
+        filter: since !== undefined ? { ...filter, since } : filter,
+        seenIds: new Set<string>(),
+        done: false,
+      }))
+    })
+    const eventsById = new Map<string, Event>()
+    const pendingEventIds = new Set(
+      (await journalCache.getPendingEvents(actualPubkey)).map(entry => entry.event.id)
+    )
+    const relayProgress: JournalLoadProgress["relays"] = Object.fromEntries(
+      readRelays.map(relay => [relay, { status: "loading" as RelayLoadStatus, events: 0 }])
+    )
+    const relaySubscriptions = new Map(readRelays.map(relay => [relay, new Set<RelaySubscription>()]))
     
-    // If no events found, wait and retry once (events might need time to propagate)
-    if (listEvents.length === 0) {
-      console.log("[Kind30001Journal] No list events found, waiting 3 seconds for propagation...")
-      await new Promise(resolve => setTimeout(resolve, 3000))
-      
-      console.log("[Kind30001Journal] Retrying query after delay...")
-      const retryEvents = await pool.querySync(RELAYS, {
-        kinds: [KIND30001_LIST],
-        "#p": [actualPubkey],
-        limit: 1000
+    let quorumReached: () => void = () => {}
+    const quorum = new Promise<void>(resolve => { quorumReached = resolve })
+    const reportProgress = () => {
+      const statuses = Object.values(relayProgress).map(progress => progress.status)
+      const relaysDone = statuses.filter(status => status === "complete").length
+      options.onProgress?.({
+        receivedEvents: eventsById.size,
+        relaysDone,
+        relaysTotal: readRelays.length,
+        relays: Object.fromEntries(readRelays.map(relay => [relay, { ...relayProgress[relay] }])),
       })
+      if (relaysDone >= loadQuorum || !statuses.includes("loading")) quorumReached()
+    }
+    
+    // Render what has arrived so far; the final pass below reconciles everything
+    const renderProvisional = async () => {
+      if (!options.onPage) return
+      const authentic = Array.from(eventsById.values()).filter(event => !getAuthenticityProblem(event, actualPubkey))
+      const { latest } = resolveAddressableEvents([
+        ...authentic.filter(event => event.kind !== DELETION_KIND),
+        ...cachedListEvents,
+      ])
+      const { validEvents } = filterDeletedEvents(latest, authentic.filter(event => event.kind === DELETION_KIND), actualPubkey)
+      options.onPage(await buildJournalNotes(validEvents, authData, actualPubkey, pendingEventIds, { onDecrypted: options.onPage }))
+    }
+    let updateTimer: ReturnType<typeof setTimeout> | null = null
+    let rendering = Promise.resolve()
+    const scheduleUpdate = () => {
+      if (updateTimer) return
+      updateTimer = setTimeout(() => {
+        updateTimer = null
+        reportProgress()
+        rendering = rendering
+          .then(renderProvisional)
+          .catch(error => console.warn("[Kind30001Journal] ⚠️ Could not render provisional entries:", error))
+      }, STREAM_UPDATE_INTERVAL_MS)
+    }
+    
+    const loadRelay = async (relay: string) => {
+      const relayCursors = pageCursors.filter(cursor => cursor.relay === relay)
+      const receive = (event: Event) => {
+        eventsById.set(event.id, event)
+        relayProgress[relay].events++
+        scheduleUpdate()
+      }
       
-      console.log("[Kind30001Journal] Retry found", retryEvents.length, "Kind 30001 list events")
-      
-      if (retryEvents.length > 0) {
-        listEvents.push(...retryEvents)
+      while (relayCursors.some(cursor => !cursor.done)) {
+        const reachedEose = await Promise.all(
+          relayCursors
+            .filter(cursor => !cursor.done)
+            .map(cursor => streamNextPage(pool, cursor, receive, relaySubscriptions.get(relay)!))
+        )
+        if (relayProgress[relay].status === "abandoned") return
+        if (!reachedEose.every(Boolean)) {
+          console.warn("[Kind30001Journal] ⚠️ Relay closed the journal query before EOSE:", relay)
+          relayProgress[relay].status = "failed"
+          reportProgress()
+          return
+        }
       }
+      relayProgress[relay].status = "complete"
+      reportProgress()
     }
     
-    // Get deletion events to filter out deleted entries
-    const deletionEvents = await pool.querySync(RELAYS, {
-      kinds: [DELETION_KIND],
-      authors: [authData.pubkey],
-      limit: 1000
+    const relayLoads = Promise.all(readRelays.map(loadRelay))
+    await quorum
+    
+    // Give slower relays a moment, then stop waiting for them. Their cursors are
+    // not advanced, so the next sync asks them again.
+    await Promise.race([relayLoads, new Promise(resolve => setTimeout(resolve, SLOW_RELAY_GRACE_MS))])
+    readRelays.forEach(relay => {
+      if (relayProgress[relay].status !== "loading") return
+      console.warn("[Kind30001Journal] 🐢 Not waiting any longer for", relay)
+      relayProgress[relay].status = "abandoned"
+      relaySubscriptions.get(relay)!.forEach(subscription => subscription.close())
     })
+    if (updateTimer) clearTimeout(updateTimer)
+    await rendering
+    reportProgress()
     
-    // Create set of deleted event IDs
-    const deletedEventIds = new Set<string>()
-    deletionEvents.forEach(deletionEvent => {
-      deletionEvent.tags.forEach((tag: any[]) => {
-        if (tag[0] === "e") {
-          deletedEventIds.add(tag[1])
-        }
+    const allEvents = Array.from(eventsById.values())
+    const listEvents = allEvents.filter(event => event.kind !== DELETION_KIND)
+    const deletionEvents = allEvents.filter(event => event.kind === DELETION_KIND)
+    const completeRelays = readRelays.filter(relay => relayProgress[relay].status === "complete")
+    
+    console.log("[Kind30001Journal] Found", listEvents.length, "new Kind 30001 list events and", deletionEvents.length, "deletions from", completeRelays.length, "of", readRelays.length, "relays")
+    
+    // Relays can still return forged events, so verify author and signature locally
+    const rejectedEvents: RejectedJournalEvent[] = []
+    const verifyAuthentic = (event: any) => {
+      const problem = getAuthenticityProblem(event, actualPubkey)
+      if (problem) {
+        console.warn("[Kind30001Journal] 🚫 Rejecting event", event.id, "-", problem)
+        rejectedEvents.push({ eventId: event.id, kind: event.kind, pubkey: event.pubkey, reason: problem, seenAt: new Date() })
+        return false
+      }
+      return true
+    }
+    const authenticListEvents = listEvents.filter(verifyAuthentic)
+    const authenticDeletionEvents = deletionEvents.filter(verifyAuthentic)
+
+    // Queued edits that another device has overtaken are held, not published over it
+    try {
+      await detectOutboxConflicts(actualPubkey, authenticListEvents)
+    } catch (error) {
+      console.warn("[Kind30001Journal] ⚠️ Could not check queued edits for conflicts:", error)
+    }
+
+    // Locally cached events (including edits not yet published) take part in resolution
+    
+    // Several relays can hold several versions of one entry; keep only the newest per address
+    const resolution = resolveAddressableEvents(
+      [...authenticListEvents, ...cachedListEvents],
+      (eventId) => Array.from(pool.seenOn.get(eventId) || []).map((relay) => relay.url),
+    )
+    const latestListEvents = resolution.latest
+    // An edit still waiting to be published doesn't make relays out of date
+    const staleVersions = resolution.staleVersions.filter(stale => !pendingEventIds.has(stale.latestEventId))
+    console.log("[Kind30001Journal] Resolved", authenticListEvents.length, "events to", latestListEvents.length, "entries")
+    
+    lastLoadDiagnostics = {
+      loadedAt: new Date(),
+      receivedEvents: listEvents.length + deletionEvents.length,
+      acceptedEvents: authenticListEvents.length + authenticDeletionEvents.length,
+      rejectedEvents,
+      staleVersions
+    }
+    if (rejectedEvents.length > 0) {
+      console.warn("[Kind30001Journal] ⚠️ Rejected", rejectedEvents.length, "forged or invalid events")
+    }
+    if (staleVersions.length > 0) {
+      console.warn("[Kind30001Journal] ⚠️ Relays serving outdated entries:", Array.from(new Set(staleVersions.map((stale) => stale.relay))))
+    }
+    
+    for (const event of [...authenticListEvents, ...cachedListEvents]) {
+      const dTag = event.tags.find((tag: string[]) => tag[0] === "d")?.[1]
+      if (!dTag) continue
+      const ids = knownVersionIds.get(dTag) || new Set<string>()
+      ids.add(event.id)
+      knownVersionIds.set(dTag, ids)
+    }
+    
+    const { validEvents, deletedAddresses } = filterDeletedEvents(latestListEvents, authenticDeletionEvents, actualPubkey)
+    console.log("[Kind30001Journal] Found", validEvents.length, "valid Kind 30001 events after filtering deletions")
+    
+    // Relays that confirmed an address deletion make the local tombstone unnecessary
+    const confirmedDeletions = new Map<string, number>()
+    deletedAddresses.forEach((deletedAt, address) => {
+      confirmedDeletions.set(address.split(":").slice(2).join(":"), deletedAt)
+    })
+    pruneJournalTombstones(actualPubkey, confirmedDeletions)
+    
+    // Reconcile the local cache: forget deleted entries, store what relays returned
+    try {
+      const validEventIds = new Set(validEvents.map(event => event.id))
+      await journalCache.removeAddresses(
+        latestListEvents.filter(event => !validEventIds.has(event.id)).map(getEventAddress)
+      )
+      const networkEventIds = new Set(authenticListEvents.map(event => event.id))
+      await journalCache.putEvents(validEvents.filter(event => networkEventIds.has(event.id)))
+      validEvents.forEach(event => {
+        if (networkEventIds.has(event.id)) pendingEventIds.delete(event.id)
+      })
+      
+      // The cache now holds everything relays had when this sync started, so
+      // every relay that delivered all its pages is synced up to that point
+      const cursors = { ...syncState.cursors }
+      completeRelays.forEach(relay => {
+        cursors[relay] = syncStartedAt
+      })
+      saveJournalSyncState(actualPubkey, {
+        cursors,
+        lastFullSync: !incremental && completeRelays.length > 0 ? syncStartedAt : syncState.lastFullSync,
+      })
+    } catch (error) {
+      console.warn("[Kind30001Journal] ⚠️ Could not update local cache:", error)
+    }
+    
+    const notes = await buildJournalNotes(validEvents, authData, actualPubkey, pendingEventIds, {
+      onDecrypted: options.onPage,
+      checkAddresses: true,
+    })
+    return notes.map(note => {
+      // Relays that served the version shown are known to hold it
+      const heldBy = note.eventId ? Array.from(pool.seenOn.get(note.eventId) || []) : []
+      if (heldBy.length === 0) return note
+      const relayReceipts: RelayReceipts = {}
+      heldBy.forEach(relay => {
+        // The pool normalizes URLs with a trailing slash; receipts use the configured URL
+        relayReceipts[relay.url.replace(/\/$/, "")] = { status: "ok", message: "Served this version", at: syncStartedAt * 1000 }
       })
+      return { ...note, relayReceipts }
     })
     
-    // Filter out deleted events
-    const validEvents = listEvents.filter(event => !deletedEventIds.has(event.id))
-    console.log("[Kind30001Journal] Found", validEvents.length, "valid Kind 30001 events after filtering deletions")
+    } catch (error) {
+      console.error("[Kind30001Journal] Error loading journal from Kind 30001:", error)
+      return []
+    }
+}
+
+/**
+ * Drop resolved events that kind 5 events deleted. Runs after resolution, so a
+ * deleted latest version does not let an older one resurface. An address
+ * deletion (NIP-09 "a" tag) covers every version up to its created_at; a
+ * version written after the deletion is a new entry and stays.
+ */
+function filterDeletedEvents(
+  latestEvents: Event[],
+  deletionEvents: Event[],
+  pubkey: string,
+): { validEvents: Event[]; deletedAddresses: Map<string, number> } {
+  const deletedEventIds = new Set<string>()
+  const deletedAddresses = new Map<string, number>()
+  for (const deletionEvent of deletionEvents) {
+    for (const tag of deletionEvent.tags) {
+      if (tag[0] === "e") {
+        deletedEventIds.add(tag[1])
+      } else if (tag[0] === "a" && typeof tag[1] === "string") {
+        const [kind, author] = tag[1].split(":")
+        // Only the author may delete their own address
+        if (!JOURNAL_KINDS.includes(Number(kind)) || author !== pubkey) continue
+        deletedAddresses.set(tag[1], Math.max(deletedAddresses.get(tag[1]) || 0, deletionEvent.created_at))
+      }
+    }
+  }
+  
+  const validEvents = latestEvents.filter(event => {
+    if (deletedEventIds.has(event.id)) return false
+    const addressDeletedAt = deletedAddresses.get(getEventAddress(event))
+    return addressDeletedAt === undefined || event.created_at > addressDeletedAt
+  })
+  return { validEvents, deletedAddresses }
+}
+
+/**
+ * Load journal entries from the local cache only, so the UI can render
+ * before relays answer (and while offline)
+ */
+export async function loadJournalFromCache(authData: any): Promise<DecryptedNote[]> {
+  if (!authData?.pubkey) {
+    return []
+  }
+  
+  try {
+    const actualPubkey = await getSignerPubkey(authData)
+    const cached = await journalCache.getEvents(actualPubkey)
+    const authenticEvents = cached
+      .map(entry => entry.event)
+      .filter(event => !getAuthenticityProblem(event, actualPubkey))
+    const pendingEventIds = new Set(cached.filter(entry => entry.pending).map(entry => entry.event.id))
+    
+    const { latest } = resolveAddressableEvents(authenticEvents)
+    const notes = await buildJournalNotes(latest, authData, actualPubkey, pendingEventIds)
+    console.log("[Kind30001Journal] 💾 Loaded", notes.length, "entries from local cache")
+    return notes
+  } catch (error) {
+    console.error("[Kind30001Journal] Error loading journal from local cache:", error)
+    return []
+  }
+}
+
+interface BuildJournalNotesOptions {
+  onDecrypted?: (notesSoFar: DecryptedNote[]) => void
+  // Work out which versions sit at an outdated address. Needs the journal secret,
+  // so only the final pass after relays answered does it.
+  checkAddresses?: boolean
+}
+
+/**
+ * Turn resolved, non-deleted list events into notes: apply local tombstones,
+ * keep journal entries only, decrypt them and apply the trash
+ */
+async function buildJournalNotes(
+  validEvents: Event[],
+  authData: any,
+  actualPubkey: string,
+  pendingEventIds: Set<string>,
+  options: BuildJournalNotesOptions = {},
+): Promise<DecryptedNote[]> {
+    const { onDecrypted, checkAddresses = false } = options
+    const tombstones = getJournalTombstones(actualPubkey)
     
-    const notes: DecryptedNote[] = []
+    // The trash list comes back with the same query; trashed entries stay hidden
+    // until restored (which republishes them) or hard-deleted. During a layout
+    // transition there can be one per layout, and the newest is current.
+    const trashEvents = validEvents.filter(isTrashEvent).sort((a, b) => b.created_at - a.created_at)
+    await readJournalTrash(trashEvents[0], authData, actualPubkey)
+    oldLayoutTrashEvents = trashEvents.filter(event => !isCurrentTrashEvent(event))
+    const trashedAtByNoteId = new Map(journalTrashItems.map(item => [item.noteId, item.trashedAt]))
     
-    // Filter events by d-tag (p-tag filtering already done by relay query)
+    // Filter events by d-tag (author and signature already verified above)
     const relevantEvents = validEvents.filter(event => {
-      // Check if this is a journal entry by looking at the d-tag
-      const dTag = event.tags.find(tag => tag[0] === "d")?.[1]
-      if (!dTag || !dTag.startsWith("journal-")) {
+      if (!isJournalEntryEvent(event)) {
+        return false
+      }
+      
+      // Deleted here but the deletion may not have reached the relays yet
+      const tombstonedAt = tombstones[getDTag(event)]
+      if (tombstonedAt !== undefined && event.created_at <= tombstonedAt) {
         return false
       }
       
@@ -179,57 +1360,138 @@ export async function loadJournalFromKind30001(authData: any): Promise<Decrypted
     
     console.log("[Kind30001Journal] Filtered to", relevantEvents.length, "relevant events for user")
     
-    // Decrypt and parse each relevant event
-    const journalEntries = await Promise.all(
-      relevantEvents.map(async (event) => {
-        try {
-          console.log("[Kind30001Journal] Decrypting event:", event.id)
-          const decryptedContent = await decryptKind30001Content(event.content, authData, actualPubkey)
-          
-          if (decryptedContent) {
-            console.log("[Kind30001Journal] Successfully decrypted journal entry:", decryptedContent.title)
-            const note = {
-              id: decryptedContent.id,
-              title: decryptedContent.title,
-              content: decryptedContent.content,
-              tags: decryptedContent.tags || [],
-              createdAt: new Date(decryptedContent.createdAt),
-              lastModified: new Date(decryptedContent.lastModified || decryptedContent.createdAt),
-              eventId: event.id,
-              eventKind: event.kind,
-              lastSynced: new Date()
-            }
-            
-            console.log(`[Kind30001Journal] Created note "${note.title}" with eventId: ${note.eventId}`)
-            return note
-          } else {
-            console.log("[Kind30001Journal] Decryption returned null for event:", event.id)
-            return null
-          }
-        } catch (error) {
-          console.error("[Kind30001Journal] Failed to decrypt Kind 30001 event:", event.id, error)
-          return null
+    // Entries decrypted earlier this session come back at once, so hand them over first
+    relevantEvents.sort((a, b) => Number(decryptedNotes.has(b.id)) - Number(decryptedNotes.has(a.id)))
+    
+    // Opaque d-tags hide which entry an event belongs to, so entries are matched up
+    // after decrypting. An entry can exist under more than one address while it is
+    // being moved; the newest version wins.
+    const newestByNoteId = new Map<string, { note: DecryptedNote; event: Event }>()
+    const newestTrashedByNoteId = new Map<string, { note: DecryptedNote; event: Event }>()
+    const versionsByNoteId = new Map<string, Event[]>()
+    
+    // Decrypt in batches (the crypto service sends each batch to its worker in one go)
+    // and pass on what is readable so far after every batch
+    for (let start = 0; start < relevantEvents.length; start += DECRYPT_BATCH_SIZE) {
+      const batch = relevantEvents.slice(start, start + DECRYPT_BATCH_SIZE)
+      const journalEntries = await Promise.all(
+        batch.map(event => decryptJournalEvent(event, authData, actualPubkey, pendingEventIds.has(event.id)))
+      )
+      journalEntries.forEach((note, index) => {
+        const event = batch[index]
+        if (!note) return
+        
+        const trashedAt = trashedAtByNoteId.get(note.id)
+        if (trashedAt !== undefined && event.created_at <= trashedAt) {
+          const trashed = newestTrashedByNoteId.get(note.id)
+          if (!trashed || isNewerVersion(event, trashed.event)) newestTrashedByNoteId.set(note.id, { note, event })
+          return
         }
+        
+        versionsByNoteId.set(note.id, [...(versionsByNoteId.get(note.id) || []), event])
+        const newest = newestByNoteId.get(note.id)
+        if (!newest || isNewerVersion(event, newest.event)) newestByNoteId.set(note.id, { note, event })
       })
-    )
+      if (onDecrypted && start + DECRYPT_BATCH_SIZE < relevantEvents.length) {
+        onDecrypted(Array.from(newestByNoteId.values(), ({ note }) => note))
+      }
+    }
+    
+    // Versions not at the entry's current address (an older layout, or hashed with an
+    // earlier journal secret) are remembered so migrateJournalEntries can move them
+    oldLayoutEvents = new Map()
+    // Without the secret there is no telling which address is current
+    const secretReadable = checkAddresses && versionsByNoteId.size > 0 && await getJournalSecret(authData).then(() => true, (error) => {
+      console.warn("[Kind30001Journal] ⚠️ Journal secret unavailable, not checking entry addresses:", error)
+      return false
+    })
+    for (const [noteId, events] of secretReadable ? versionsByNoteId : []) {
+      const currentDTag = await getEntryDTag(noteId, authData)
+      const stale = events.filter(event => event.kind !== JOURNAL_LAYOUT.kind || getDTag(event) !== currentDTag)
+      if (stale.length > 0) oldLayoutEvents.set(noteId, stale)
+    }
     
-    // Filter out null results and add to notes
-    const validEntries = journalEntries.filter(entry => entry !== null)
-    notes.push(...validEntries)
+    for (const [noteId, { note }] of newestTrashedByNoteId) trashedNotes.set(noteId, note)
+    resolveJournalTrash()
     
-    console.log("[Kind30001Journal] Successfully loaded", notes.length, "decrypted journal entries from Kind 30001")
+    const notes = Array.from(newestByNoteId.values(), ({ note }) => note)
+    console.log("[Kind30001Journal] Successfully loaded", notes.length, "decrypted journal entries")
     return notes
+}
+
+/**
+ * Decrypt one journal event into a note. Entries in an envelope this version
+ * can't read come back read-only; undecryptable ones as null.
+ */
+async function decryptJournalEvent(event: Event, authData: any, actualPubkey: string, pending = false): Promise<DecryptedNote | null> {
+  const known = decryptedNotes.get(event.id)
+  if (known) {
+    if (!known.unreadableReason) entryIdsByDTag.set(getDTag(event), known.id)
+    return { ...known, lastSynced: new Date(), syncStatus: known.unreadableReason ? undefined : pending ? "local" : "synced" }
+  }
+  
+  try {
+    console.log("[Kind30001Journal] Decrypting event:", event.id)
+    const decrypted = await decryptKind30001Content(event.content, authData, actualPubkey)
     
-    } catch (error) {
-      console.error("[Kind30001Journal] Error loading journal from Kind 30001:", error)
-      return []
+    if (decrypted.status === "ok") {
+      const decryptedContent = JSON.parse(decrypted.plaintext)
+      console.log("[Kind30001Journal] Successfully decrypted journal entry:", decryptedContent.title)
+      const note = {
+        id: decryptedContent.id,
+        title: decryptedContent.title,
+        content: decryptedContent.content,
+        tags: decryptedContent.tags || [],
+        createdAt: new Date(decryptedContent.createdAt),
+        lastModified: new Date(decryptedContent.lastModified || decryptedContent.createdAt),
+        eventId: event.id,
+        eventCreatedAt: event.created_at,
+        eventKind: event.kind,
+        lastSynced: new Date(),
+        syncStatus: pending ? "local" as const : "synced" as const,
+        encryptionScheme: decrypted.alg,
+        envelopeVersion: decrypted.version
+      }
+      
+      console.log(`[Kind30001Journal] Created note "${note.title}" with eventId: ${note.eventId}`)
+      decryptedNotes.set(event.id, note)
+      entryIdsByDTag.set(getDTag(event), note.id)
+      return note
+    } else if (decrypted.status === "unsupported") {
+      // Keep the entry visible (read-only) instead of silently dropping it
+      console.warn("[Kind30001Journal] ⚠️ Entry unreadable by this version:", event.id, decrypted.reason)
+      const createdAt = new Date(event.created_at * 1000)
+      const unreadable: DecryptedNote = {
+        // Opaque d-tags can't be mapped back without the content; the address keeps it apart from other entries
+        id: getEntryNoteId(event) ?? getEventAddress(event),
+        title: "Unreadable entry",
+        content: "",
+        tags: [],
+        createdAt,
+        lastModified: createdAt,
+        eventId: event.id,
+        eventCreatedAt: event.created_at,
+        eventKind: event.kind,
+        lastSynced: new Date(),
+        envelopeVersion: decrypted.version,
+        unreadableReason: `Unreadable by this version of Nostr Journal. ${decrypted.reason}`
+      }
+      decryptedNotes.set(event.id, unreadable)
+      return unreadable
+    } else {
+      console.log("[Kind30001Journal] Decryption failed for event:", event.id, decrypted.error)
+      return null
     }
+  } catch (error) {
+    console.error("[Kind30001Journal] Failed to decrypt Kind 30001 event:", event.id, error)
+    return null
+  }
 }
 
 /**
  * Save a journal entry as a Kind 30001 Generic List (parameterized replaceable event)
  */
-export async function saveJournalAsKind30001(note: DecryptedNote, authData: any): Promise<{ success: boolean; eventId?: string; error?: string }> {
+export async function saveJournalAsKind30001(note: DecryptedNote, authData: any): Promise<JournalSaveResult> {
   if (!authData) {
     return { success: false, error: "No auth data" }
   }
@@ -265,66 +1527,350 @@ export async function saveJournalAsKind30001(note: DecryptedNote, authData: any)
     
     console.log("[Kind30001Journal] 🎯 FINAL PUBKEY FOR SAVE:", actualPubkey)
     
-    // Encrypt the journal content using NIP-04
-    console.log("[Kind30001Journal] 🔐 Encrypting content...")
-    const encryptedContent = await encryptKind30001Content(note, authData, actualPubkey)
-    console.log("[Kind30001Journal] ✅ Content encrypted, length:", encryptedContent.length)
+    // Never overwrite a version another device saved after the one this edit started from.
+    // The edit is held in the outbox until the user merges or picks a side.
+    const address = await getEntryAddress(actualPubkey, note.id, authData)
+    const base = await getBaseVersion(note, address)
+    const remote = await findNewerRemoteVersion(address, base)
+    if (remote) {
+      console.warn("[Kind30001Journal] ⚠️ Entry was changed on another device since", base?.eventId, "- not overwriting", remote.id)
+      const held = await queueUnsignedNote(note, address, actualPubkey, authData, new Error("Edited on another device since this change was made"), base, remote)
+      const conflict = await buildJournalConflict(held, authData)
+      return {
+        success: false,
+        conflict: conflict || undefined,
+        error: "This entry was changed on another device. Review both versions before saving."
+      }
+    }
+    
+    let signedEvent: Event
+    try {
+      signedEvent = await buildSignedJournalEvent(note, authData, actualPubkey)
+    } catch (signError) {
+      // Signer unavailable (disconnected remote signer, locked extension): keep the
+      // edit in the outbox and sign it on a later attempt
+      console.warn("[Kind30001Journal] ⚠️ Could not sign, queueing edit in outbox:", signError)
+      await queueUnsignedNote(note, address, actualPubkey, authData, signError, base)
+      return { success: true, pending: true }
+    }
+    
+    // Keep the signed event locally first so an offline edit survives until it can be published
+    await cacheSignedEvent(signedEvent)
     
-    // Create unique identifier for this journal entry
-    const dTag = `journal-${note.id || Date.now()}`
+    // Publish to relays through the outbox, which retries relays that failed
+    console.log("[Kind30001Journal] 📡 Publishing to", getJournalWriteRelays().length, "relays...")
+    const { accepted, relays } = await publishThroughOutbox(signedEvent, authData, { base, noteId: note.id })
+    if (!accepted) {
+      console.warn("[Kind30001Journal] ⚠️ Fewer relays than the publish quorum accepted the event, keeping it in the outbox")
+    }
     
-    // Create Kind 30001 event (parameterized replaceable event)
-    const unsignedEvent = {
-      kind: KIND30001_LIST,
+    return {
+      success: true,
+      eventId: signedEvent.id,
+      eventCreatedAt: signedEvent.created_at,
+      pending: !accepted,
+      relays
+    }
+    
+  } catch (error) {
+    console.error("[Kind30001Journal] ❌ Save error:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+}
+
+/**
+ * Encrypt journal content to the user's own key with NIP-44 v2 via the active signer
+ */
+async function encryptKind30001Content(note: DecryptedNote, authData: any, actualPubkey?: string): Promise<string> {
+  
+  // For Kind 30001, we encrypt with the user's actual keypair
+  const userPubkey = actualPubkey || authData.pubkey
+  
+  // Create the journal data as JSON
+  const journalData = JSON.stringify({
+    id: note.id,
+    title: note.title,
+    content: note.content,
+    tags: note.tags,
+    createdAt: note.createdAt.toISOString(),
+    lastModified: (note.lastModified || note.createdAt).toISOString(),
+  })
+  
+  console.log("[Kind30001Journal] Encrypting journal data for user:", userPubkey)
+  
+  try {
+    // NIP-44 self-encryption through the signer, wrapped in a versioned envelope
+    console.log("[Kind30001Journal] 🔐 Using NIP-44 self-encryption via", authData.authMethod, "signer...")
+    const encrypted = await encryptJournalPayload(journalData, authData, userPubkey)
+    console.log("[Kind30001Journal] ✅ Encrypted with NIP-44 (envelope v" + JOURNAL_ENVELOPE_VERSION + ")")
+    
+    return encrypted
+  } catch (error) {
+    console.error("[Kind30001Journal] ❌ Encryption failed:", error)
+    throw new Error(`Failed to encrypt journal data: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+/**
+ * Decrypt Kind 30001 content by dispatching on its envelope version and algorithm
+ */
+async function decryptKind30001Content(
+  encryptedData: string,
+  authData: any,
+  actualPubkey?: string,
+): Promise<EnvelopeDecryptResult> {
+  const userPubkey = actualPubkey || authData.pubkey
+  
+  console.log("[Kind30001Journal] 🔍 DECRYPTION DEBUGGING:")
+  console.log("[Kind30001Journal] Auth method:", authData.authMethod)
+  console.log("[Kind30001Journal] User pubkey for decryption:", userPubkey)
+  console.log("[Kind30001Journal] Encrypted data length:", encryptedData.length)
+  
+  const result = await decryptJournalPayload(encryptedData, authData, userPubkey)
+  if (result.status === "ok") {
+    console.log("[Kind30001Journal] ✅ Decrypted with", result.alg, "(envelope v" + result.version + ")")
+  }
+  return result
+}
+
+/**
+ * Sync function - reload from Kind 30001 lists
+ */
+export async function syncFromKind30001(authData: any): Promise<DecryptedNote[]> {
+  console.log("[Kind30001Journal] Syncing from Kind 30001 lists...")
+  
+  // Sync is just the same as loading from Kind 30001 lists
+  const notes = await loadJournalFromKind30001(authData)
+  
+  console.log(`[Kind30001Journal] Sync complete: ${notes.length} journal entries loaded from Kind 30001 lists`)
+  return notes
+}
+
+/**
+ * Whether an entry still has to be moved: written with an older envelope, or
+ * with versions left in an older layout
+ */
+export function needsJournalMigration(note: DecryptedNote): boolean {
+  return needsReencryption(note) || oldLayoutEvents.has(note.id)
+}
+
+/**
+ * Background migration: re-save entries not yet using the current envelope
+ * (NIP-44 v2) or layout, then delete the versions left in older layouts. Old
+ * versions are only deleted once relays have accepted the new one.
+ */
+export async function migrateJournalEntries(
+  notes: DecryptedNote[],
+  authData: any,
+  onProgress?: (done: number, total: number) => void,
+): Promise<{ migrated: DecryptedNote[]; failed: { note: DecryptedNote; error: string }[] }> {
+  const pendingNotes = notes.filter(note => needsJournalMigration(note))
+  const migrated: DecryptedNote[] = []
+  const failed: { note: DecryptedNote; error: string }[] = []
+  
+  console.log("[Kind30001Journal] 🔁 Migrating", pendingNotes.length, "entries to the current envelope and layout...")
+  
+  // Sequential on purpose - remote signers handle one request at a time
+  for (const note of pendingNotes) {
+    const oldVersions = oldLayoutEvents.get(note.id)
+    let published = true
+    if (needsReencryption(note) || oldVersions?.some(event => event.id === note.eventId)) {
+      const result = await saveJournalAsKind30001(note, authData)
+      if (!result.success || !result.eventId) {
+        console.error("[Kind30001Journal] ❌ Failed to migrate entry:", note.id, result.error)
+        failed.push({ note, error: result.error || "Unknown error" })
+        onProgress?.(migrated.length + failed.length, pendingNotes.length)
+        continue
+      }
+      migrated.push({
+        ...note,
+        eventId: result.eventId,
+        eventCreatedAt: result.eventCreatedAt,
+        eventKind: JOURNAL_LAYOUT.kind,
+        encryptionScheme: CURRENT_JOURNAL_ALGORITHM,
+        envelopeVersion: JOURNAL_ENVELOPE_VERSION,
+        lastSynced: new Date()
+      })
+      published = !result.pending && !result.conflict
+    }
+
+    // Retire the old addresses only once the new version is on relays
+    if (oldVersions && published) {
+      const deleted = await publishEntryDeletion(note.id, oldVersions.map(event => event.id), oldVersions.map(getEventAddress), authData)
+      if (deleted.success) {
+        oldLayoutEvents.delete(note.id)
+      } else {
+        console.warn("[Kind30001Journal] ⚠️ Could not remove old layout versions of entry:", note.id, deleted.error)
+      }
+    }
+    onProgress?.(migrated.length + failed.length, pendingNotes.length)
+  }
+
+  await migrateJournalTrash(authData)
+  
+  console.log(`[Kind30001Journal] ✅ Journal migration complete: ${migrated.length} migrated, ${failed.length} failed`)
+  return { migrated, failed }
+}
+
+/**
+ * Move the trash list to the current layout and delete the copies in older ones
+ */
+async function migrateJournalTrash(authData: any): Promise<void> {
+  if (oldLayoutTrashEvents.length === 0 || !journalTrashWritable) return
+
+  // The current trash list was read from an old layout; write it in the new one first
+  if (oldLayoutTrashEvents.some(event => event.id === journalTrashEventId)) {
+    const republished = await publishJournalTrash(journalTrashItems, authData)
+    if (!republished.success) {
+      console.warn("[Kind30001Journal] ⚠️ Could not move trash list to the current layout:", republished.error)
+      return
+    }
+  }
+
+  try {
+    const signerPubkey = await getSignerPubkey(authData)
+    const addresses = Array.from(new Set(oldLayoutTrashEvents.map(getEventAddress)))
+    const deletionEvent = {
+      kind: DELETION_KIND,
       created_at: Math.floor(Date.now() / 1000),
       tags: [
-        ["d", dTag],
-        ["p", actualPubkey],  // Use actualPubkey for consistent filtering
+        ...oldLayoutTrashEvents.map((event) => ["e", event.id]),
+        ...addresses.map((address) => ["a", address]),
+        ...getAddressKinds(addresses).map((kind) => ["k", kind]),
+      ],
+      content: "Moved the journal trash to a new event kind.",
+      pubkey: signerPubkey,
+    }
+
+    const signedEvent = await signEventWithRemote(deletionEvent, authData)
+    console.log("[Kind30001Journal] 🗑️ Deleting trash list in old layout:", signedEvent.id)
+    const deleted = await publishDeletion(signedEvent)
+    if (!deleted.success) {
+      console.warn("[Kind30001Journal] ⚠️ Could not delete old trash list:", deleted.error)
+      return
+    }
+    oldLayoutTrashEvents = []
+  } catch (error) {
+    console.warn("[Kind30001Journal] ⚠️ Could not delete old trash list:", error)
+  }
+}
+
+/**
+ * Delete a journal entry by publishing a Kind 5 deletion event
+ */
+export async function deleteJournalKind30001(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }> {
+  return deleteJournalEntryEvents(note.id, note.eventId, authData)
+}
+
+async function deleteJournalEntryEvents(noteId: string, eventId: string | undefined, authData: any): Promise<{ success: boolean; error?: string }> {
+  if (!eventId) {
+    return { success: false, error: "No event ID to delete" }
+  }
+  try {
+    // Every readable layout, so a copy not yet migrated doesn't bring the entry back
+    const pubkey = await getSignerPubkey(authData)
+    const addresses = await Promise.all(READABLE_LAYOUTS.map(layout => getEntryAddress(pubkey, noteId, authData, layout)))
+    const oldVersions = oldLayoutEvents.get(noteId) || []
+    return publishEntryDeletion(
+      noteId,
+      [eventId, ...oldVersions.map(event => event.id)],
+      [...addresses, ...oldVersions.map(getEventAddress)],
+      authData,
+    )
+  } catch (error) {
+    console.error("[Kind30001Journal] Error deleting journal entry:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+/**
+ * Send a kind 5 event to the write relays. It only counts as done once the
+ * publish quorum of relays has accepted it.
+ */
+async function publishDeletion(signedEvent: Event): Promise<{ success: boolean; error?: string }> {
+  const writeRelays = getJournalWriteRelays()
+  let relays = await publishToRelays(writeRelays, signedEvent)
+  
+  // Rate-limited relays get one more try after a pause
+  const rateLimited = writeRelays.filter(relay => relays[relay]?.prefix === "rate-limited")
+  if (rateLimited.length > 0 && countAccepted(relays) < getPublishQuorum()) {
+    await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_RETRY_DELAY_MS))
+    relays = await publishToRelays(rateLimited, signedEvent, relays)
+  }
+  
+  const acceptedCount = countAccepted(relays)
+  if (acceptedCount >= getPublishQuorum()) {
+    return { success: true }
+  }
+  
+  const refusals = writeRelays
+    .filter(relay => relays[relay]?.status !== "ok")
+    .map(relay => {
+      const receipt = relays[relay]
+      const reason = receipt?.status === "failed" ? describeOkResult({ prefix: receipt.prefix, message: receipt.message || "" }) : receipt?.message
+      return `${relay}: ${reason || "no answer"}`
+    })
+  console.warn("[Kind30001Journal] ⚠️ Deletion", signedEvent.id, "accepted by", acceptedCount, "of", writeRelays.length, "relays")
+  return { success: false, error: `Only ${acceptedCount} of ${writeRelays.length} relays accepted the deletion (${refusals.join("; ")})` }
+}
+
+function getAddressKinds(addresses: string[]): string[] {
+  return Array.from(new Set(addresses.map(address => address.split(":")[0])))
+}
+
+/**
+ * Publish a kind 5 event deleting an entry at the given addresses
+ */
+async function publishEntryDeletion(
+  noteId: string,
+  eventIds: string[],
+  entryAddresses: string[],
+  authData: any,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const signerPubkey = await getSignerPubkey(authData)
+    const createdAt = Math.floor(Date.now() / 1000)
+
+    // Name every version we know of, plus the addresses so versions we have not
+    // seen (still sitting on other relays) are deleted too
+    const addresses = Array.from(new Set(entryAddresses))
+    const dTags = addresses.map(address => address.split(":").slice(2).join(":"))
+    const ids = new Set(eventIds)
+    dTags.forEach(dTag => knownVersionIds.get(dTag)?.forEach(id => ids.add(id)))
+
+    const deletionEvent = {
+      kind: DELETION_KIND,
+      created_at: createdAt,
+      tags: [
+        ...Array.from(ids).map((id) => ["e", id]),
+        ...addresses.map((address) => ["a", address]),
+        ...getAddressKinds(addresses).map((kind) => ["k", kind]),
       ],
-      content: encryptedContent,
-      pubkey: actualPubkey,
+      content: "Deleted a journal entry from Nostr Journal.",
+      pubkey: signerPubkey,
     }
-    
-    console.log("[Kind30001Journal] 📝 Created unsigned event:", {
-      kind: unsignedEvent.kind,
-      tags: unsignedEvent.tags,
-      pubkey: unsignedEvent.pubkey,
-      contentLength: unsignedEvent.content.length
-    })
 
-    // Sign the event
-    console.log("[Kind30001Journal] ✍️  Signing event...")
-    const signedEvent = await signEventWithRemote(unsignedEvent, authData)
-    console.log("[Kind30001Journal] ✅ Event signed, ID:", signedEvent.id)
-    
-    // Publish to relays
-    console.log("[Kind30001Journal] 📡 Publishing to", RELAYS.length, "relays...")
-    const pool = getPool()
-    
+    const signedEvent = await signEventWithRemote(deletionEvent, authData)
+    console.log("[Kind30001Journal] Publishing Kind 5 deletion event for journal entry:", noteId, signedEvent.id)
+
+    // Keep the entry hidden locally until relays have caught up with the deletion
+    dTags.forEach(dTag => addJournalTombstone(signedEvent.pubkey, dTag, createdAt))
     try {
-      const publishedRelays = await pool.publish(RELAYS, signedEvent)
-      console.log("[Kind30001Journal] ✅ Published to", publishedRelays.length, "relays successfully")
-      
-      // Log which relays accepted
-      RELAYS.forEach((relay, index) => {
-        console.log(`[Kind30001Journal] ✅ Relay ${index + 1}: ${relay}`)
-      })
-      
-      return {
-        success: true,
-        eventId: signedEvent.id
-      }
-      
-    } catch (publishError) {
-      console.error("[Kind30001Journal] ❌ Publishing failed:", publishError)
-      return {
-        success: false,
-        error: publishError instanceof Error ? publishError.message : "Publishing failed"
+      await journalCache.removeAddresses(addresses)
+      // Edits still queued (or held in a conflict) would bring the entry back
+      for (const address of addresses) {
+        await journalOutbox.remove(address)
       }
+    } catch (error) {
+      console.warn("[Kind30001Journal] ⚠️ Could not remove deleted entry from local cache:", error)
     }
     
+    return publishDeletion(signedEvent)
   } catch (error) {
-    console.error("[Kind30001Journal] ❌ Save error:", error)
+    console.error("[Kind30001Journal] Error deleting journal entry:", error)
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error"
@@ -333,286 +1879,683 @@ export async function saveJournalAsKind30001(note: DecryptedNote, authData: any)
 }
 
 /**
- * Delete a journal entry by publishing a Kind 5 deletion event
+ * Entries currently in the trash, as of the last load or trash change
  */
-export async function deleteJournalKind4(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }> {
-  if (!note.eventId) {
-    return { success: false, error: "No event ID to delete" }
+export function getJournalTrash(): TrashedJournalEntry[] {
+  return journalTrash
+}
+
+/**
+ * Match the trash list up with the trashed versions loaded from relays or the
+ * cache. Entries whose events can't be found stay on the list but aren't shown.
+ */
+function resolveJournalTrash(): void {
+  journalTrash = journalTrashItems.flatMap((item) => {
+    const note = trashedNotes.get(item.noteId) || (item.eventId ? decryptedNotes.get(item.eventId) : undefined)
+    return note ? [{ note, trashedAt: item.trashedAt }] : []
+  })
+}
+
+/**
+ * Decrypt the trash list event into module state
+ */
+async function readJournalTrash(trashEvent: any, authData: any, pubkey: string): Promise<void> {
+  // Already read (or written) this version of the trash list
+  if (trashEvent && trashEvent.id === journalTrashEventId) return
+  
+  journalTrashWritable = true
+  journalTrashEventId = trashEvent?.id || null
+  if (!trashEvent) {
+    journalTrashItems = []
+    resolveJournalTrash()
+    return
+  }
+
+  const decrypted = await decryptJournalPayload(trashEvent.content, authData, pubkey)
+  if (decrypted.status !== "ok") {
+    console.warn("[Kind30001Journal] ⚠️ Could not read trash list:", decrypted.status === "failed" ? decrypted.error : decrypted.reason)
+    journalTrashItems = []
+    resolveJournalTrash()
+    // Rewriting it would throw away entries we could not read
+    journalTrashWritable = false
+    return
   }
 
   try {
-    // Create Kind 5 deletion event for the Kind 4 event ID
-    const deletionEvent = {
-      kind: DELETION_KIND,
+    const parsed = JSON.parse(decrypted.plaintext)
+    journalTrashItems = (parsed.entries || []).map((entry: any) => {
+      // Lists written before entries were stored by reference carry a full copy of the note
+      if (entry.note) {
+        trashedNotes.set(entry.note.id, {
+          ...entry.note,
+          createdAt: new Date(entry.note.createdAt),
+          lastModified: new Date(entry.note.lastModified || entry.note.createdAt),
+        })
+      }
+      return {
+        noteId: entry.noteId || entry.note.id,
+        eventId: entry.eventId || entry.note?.eventId,
+        trashedAt: entry.trashedAt,
+      }
+    })
+    resolveJournalTrash()
+    console.log("[Kind30001Journal] 🗑️ Trash holds", journalTrashItems.length, "entries")
+  } catch (error) {
+    console.error("[Kind30001Journal] ❌ Trash list is not valid JSON:", error)
+    journalTrashItems = []
+    resolveJournalTrash()
+    journalTrashWritable = false
+  }
+}
+
+/**
+ * Encrypt and publish the trash list as one addressable event. Only counts as
+ * done once the publish quorum of relays has accepted it.
+ */
+async function publishJournalTrash(items: TrashListItem[], authData: any): Promise<{ success: boolean; error?: string }> {
+  if (!journalTrashWritable) {
+    return { success: false, error: "The trash was written by a newer version of Nostr Journal and can't be changed here" }
+  }
+
+  try {
+    const signerPubkey = await getSignerPubkey(authData)
+    const content = await encryptJournalPayload(JSON.stringify({ entries: items }), authData, signerPubkey)
+
+    const unsignedEvent = {
+      kind: JOURNAL_LAYOUT.kind,
       created_at: Math.floor(Date.now() / 1000),
       tags: [
-        ["e", note.eventId], // Kind 4 event ID to delete
+        ["d", JOURNAL_LAYOUT.trashDTag],
+        ["p", signerPubkey],
       ],
-      content: "Deleted a journal entry from Nostr Journal.",
-      pubkey: authData.pubkey,
+      content,
+      pubkey: signerPubkey,
     }
 
-    const signedEvent = await signEventWithRemote(deletionEvent, authData)
-    console.log("[Kind30001Journal] Publishing Kind 5 deletion event for Kind 30001 event:", signedEvent.id)
-    
-    const pool = getPool()
-    const relays = await pool.publish(RELAYS, signedEvent)
-    
+    const signedEvent = await signEventWithRemote(unsignedEvent, authData)
+    console.log("[Kind30001Journal] 📡 Publishing trash list with", items.length, "entries:", signedEvent.id)
+    const { accepted, relays } = await publishThroughOutbox(signedEvent, authData)
+    if (!accepted) {
+      // Not left for the outbox to retry: a trash change landing later would hide
+      // or bring back entries long after the user was told it failed
+      await journalOutbox.remove(getEventAddress(signedEvent))
+      const writeRelays = getJournalWriteRelays()
+      console.warn("[Kind30001Journal] ⚠️ Trash list", signedEvent.id, "accepted by", countAccepted(relays), "of", writeRelays.length, "relays")
+      return { success: false, error: `Only ${countAccepted(relays)} of ${writeRelays.length} relays accepted the change to the trash` }
+    }
+    await cacheSignedEvent(signedEvent)
+
+    journalTrashItems = items
+    journalTrashEventId = signedEvent.id
+    resolveJournalTrash()
     return { success: true }
-    
   } catch (error) {
-    console.error("[Kind30001Journal] Error deleting journal entry:", error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error"
+    console.error("[Kind30001Journal] ❌ Failed to publish trash list:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+/**
+ * Move an entry to the trash. Its event stays on relays until the retention
+ * period runs out, so it can still be restored.
+ */
+export async function moveJournalToTrash(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }> {
+  const item: TrashListItem = { noteId: note.id, eventId: note.eventId, trashedAt: Math.floor(Date.now() / 1000) }
+  const items = [item, ...journalTrashItems.filter((existing) => existing.noteId !== note.id)]
+  trashedNotes.set(note.id, note)
+  return publishJournalTrash(items, authData)
+}
+
+/**
+ * Restore a trashed entry by republishing its last version under its original d-tag
+ */
+export async function restoreJournalFromTrash(noteId: string, authData: any): Promise<{ success: boolean; note?: DecryptedNote; error?: string }> {
+  const entry = journalTrash.find((existing) => existing.note.id === noteId)
+  if (!entry) {
+    return { success: false, error: "Entry is not in the trash" }
+  }
+
+  const saveResult = await saveJournalAsKind30001(entry.note, authData)
+  if (!saveResult.success) {
+    return { success: false, error: saveResult.error }
+  }
+
+  const trashResult = await publishJournalTrash(journalTrashItems.filter((item) => item.noteId !== noteId), authData)
+  if (!trashResult.success) {
+    return { success: false, error: trashResult.error }
+  }
+
+  trashedNotes.delete(noteId)
+  return { success: true, note: { ...entry.note, eventId: saveResult.eventId } }
+}
+
+/**
+ * Permanently delete trashed entries with a kind 5 event and drop them from the trash
+ */
+export async function purgeJournalFromTrash(noteIds: string[], authData: any): Promise<{ success: boolean; error?: string }> {
+  const purged = journalTrashItems.filter((item) => noteIds.includes(item.noteId))
+  for (const item of purged) {
+    // Entries never published have nothing to delete on relays
+    if (!item.eventId) continue
+    const result = await deleteJournalEntryEvents(item.noteId, item.eventId, authData)
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
   }
+
+  const result = await publishJournalTrash(journalTrashItems.filter((item) => !noteIds.includes(item.noteId)), authData)
+  if (result.success) noteIds.forEach((noteId) => trashedNotes.delete(noteId))
+  return result
+}
+
+/**
+ * Hard-delete trashed entries older than the retention period
+ */
+export async function purgeExpiredJournalTrash(authData: any, retentionDays: number): Promise<{ purged: number; error?: string }> {
+  const cutoff = Math.floor(Date.now() / 1000) - retentionDays * 24 * 60 * 60
+  const expiredIds = journalTrashItems.filter((item) => item.trashedAt < cutoff).map((item) => item.noteId)
+  if (expiredIds.length === 0) {
+    return { purged: 0 }
+  }
+
+  console.log("[Kind30001Journal] 🗑️ Purging", expiredIds.length, "trashed entries past", retentionDays, "days")
+  const result = await purgeJournalFromTrash(expiredIds, authData)
+  return result.success ? { purged: expiredIds.length } : { purged: 0, error: result.error }
 }
 
 /**
- * Encrypt journal content using NIP-04 encryption for Kind 30001
+ * Hold back queued edits that relays have moved on from since their base
+ * version, e.g. an offline edit made while another device saved the entry
  */
-async function encryptKind30001Content(note: DecryptedNote, authData: any, actualPubkey?: string): Promise<string> {
-  
-  // For Kind 30001, we encrypt with the user's actual keypair
-  const userPubkey = actualPubkey || authData.pubkey
-  
-  // Create the journal data as JSON
-  const journalData = JSON.stringify({
-    id: note.id,
-    title: note.title,
-    content: note.content,
-    tags: note.tags,
-    createdAt: note.createdAt.toISOString(),
-    lastModified: note.lastModified.toISOString(),
-  })
-  
-  console.log("[Kind30001Journal] Encrypting journal data for user:", userPubkey)
+async function detectOutboxConflicts(pubkey: string, networkEvents: Event[]): Promise<number> {
+  let held = 0
+  for (const entry of await journalOutbox.getEntries(pubkey)) {
+    if (Object.values(entry.relays).some(relay => relay.status === "ok")) continue
+    const remote = await findNewerRemoteVersion(entry.address, entry.base, networkEvents)
+    if (!remote) continue
+    if (entry.conflict && !isNewerVersion(remote, entry.conflict.event)) continue
+    console.warn("[Kind30001Journal] ⚠️ Queued edit for", entry.address, "conflicts with", remote.id, "from another device")
+    await settleOutboxEntry(entry, holdForConflict(entry, remote))
+    held++
+  }
+  return held
+}
+
+function toJournalVersion(note: DecryptedNote): JournalVersion {
+  return { title: note.title, content: note.content, tags: note.tags }
+}
+
+/**
+ * Decrypt both sides (and the base, when kept) of a held outbox entry
+ */
+async function buildJournalConflict(entry: OutboxEntry, authData: any): Promise<JournalConflict | null> {
+  if (!entry.conflict) return null
   
   try {
-    // Use deterministic encryption for ALL methods to ensure consistency
-    console.log("[Kind30001Journal] 🔐 Using deterministic pubkey-based encryption for all methods...")
-    const encrypted = await deterministicEncrypt(userPubkey, journalData)
-    console.log("[Kind30001Journal] ✅ Encrypted with deterministic method")
+    const local = entry.state === "unsigned" && entry.queuedNote
+      ? await readQueuedNote(entry.queuedNote, authData, entry.pubkey)
+      : await decryptJournalEvent(entry.event, authData, entry.pubkey)
+    const remote = await decryptJournalEvent(entry.conflict.event, authData, entry.pubkey)
+    const base = entry.base?.event ? await decryptJournalEvent(entry.base.event, authData, entry.pubkey) : null
     
-    return encrypted
+    if (!local || !remote || local.unreadableReason || remote.unreadableReason) {
+      console.warn("[Kind30001Journal] ⚠️ Can't read both sides of the conflict for", entry.address)
+      return null
+    }
     
-    // OLD REMOTE SIGNER METHOD (removed for consistency):
-    // if (authData.authMethod === "remote") {
-    //   // CRITICAL: For remote signers, use the signer's nip04_encrypt method
-    //   console.log("[Kind30001Journal] Using remote signer's nip04_encrypt method...")
-    //   
-    //   const { remoteSignerManager } = await import("./remote-signer-manager")
-    //   
-    //   if (!remoteSignerManager.isAvailable()) {
-    //     throw new Error("Remote signer not available. Please reconnect.")
-    //   }
-    //   
-    //   // Get the signer from the remote signer manager
-    //   const sessionInfo = remoteSignerManager.getSessionInfo()
-    //   if (!sessionInfo.available || !sessionInfo.hasSigner) {
-    //     throw new Error("Remote signer not properly initialized")
-    //   }
-    //   
-    //   // Use the remote signer's nip04_encrypt method
-    //   const encrypted = await remoteSignerManager.nip04Encrypt(userPubkey, journalData)
-    //   console.log("[Kind30001Journal] ✅ Encrypted with remote signer")
-    //   
-    //   return encrypted
-    //   
-    // }
+    return {
+      noteId: local.id,
+      base: base && !base.unreadableReason ? toJournalVersion(base) : undefined,
+      local: toJournalVersion(local),
+      remote: { ...toJournalVersion(remote), eventId: entry.conflict.event.id, createdAt: entry.conflict.event.created_at },
+      detectedAt: entry.conflict.detectedAt,
+    }
   } catch (error) {
-    console.error("[Kind30001Journal] ❌ Encryption failed:", error)
-    throw new Error(`Failed to encrypt journal data: ${error instanceof Error ? error.message : "Unknown error"}`)
+    console.error("[Kind30001Journal] ❌ Failed to read conflicting versions:", entry.address, error)
+    return null
   }
 }
 
 /**
- * Decrypt Kind 30001 content using consistent decryption approach
+ * Edits held back because another device saved the same entry first
  */
-async function decryptKind30001Content(encryptedData: string, authData: any, actualPubkey?: string): Promise<any> {
+export async function getJournalConflicts(authData: any): Promise<JournalConflict[]> {
+  const pubkey = await getSignerPubkey(authData)
+  const conflicts: JournalConflict[] = []
   
+  // Sequential on purpose - remote signers handle one request at a time
+  for (const entry of await journalOutbox.getEntries(pubkey)) {
+    const conflict = await buildJournalConflict(entry, authData)
+    if (conflict) conflicts.push(conflict)
+  }
+  return conflicts
+}
+
+/**
+ * Resolve a conflict by dropping the held local edit and keeping the other device's version.
+ * Keeping the local or a merged version is a normal save based on the remote event.
+ */
+export async function acceptRemoteJournalVersion(noteId: string, authData: any): Promise<{ success: boolean; note?: DecryptedNote; error?: string }> {
   try {
-    const userPubkey = actualPubkey || authData.pubkey
+    const pubkey = await getSignerPubkey(authData)
+    const entry = (await journalOutbox.getEntries(pubkey)).find(existing => getOutboxNoteId(existing) === noteId)
+    if (!entry?.conflict) {
+      return { success: false, error: "No conflicting edit for this entry" }
+    }
     
-    console.log("[Kind30001Journal] 🔍 DECRYPTION DEBUGGING:")
-    console.log("[Kind30001Journal] Auth method:", authData.authMethod)
-    console.log("[Kind30001Journal] User pubkey for decryption:", userPubkey)
-    console.log("[Kind30001Journal] Encrypted data length:", encryptedData.length)
-    
-    // Use deterministic decryption for ALL methods to ensure consistency
-    console.log("[Kind30001Journal] 🔓 Using deterministic pubkey-based decryption for all methods...")
-    const decrypted = await deterministicDecrypt(userPubkey, encryptedData)
-    console.log("[Kind30001Journal] ✅ Decrypted with deterministic method")
-    
-    // Parse the JSON content
-    const journalData = JSON.parse(decrypted)
-    console.log("[Kind30001Journal] 📄 Decrypted journal data:", journalData.title)
-    return journalData
-    
-    // OLD REMOTE SIGNER METHOD (removed for consistency):
-    // if (authData.authMethod === "remote") {
-    //   // CRITICAL: For remote signers, use the signer's nip04_decrypt method
-    //   console.log("[Kind30001Journal] 🔐 Using remote signer's nip04_decrypt method...")
-    //   
-    //   const { remoteSignerManager } = await import("./remote-signer-manager")
-    //   
-    //   if (!remoteSignerManager.isAvailable()) {
-    //     throw new Error("Remote signer not available. Please reconnect.")
-    //   }
-    //   
-    //   // Get the signer from the remote signer manager
-    //   const sessionInfo = remoteSignerManager.getSessionInfo()
-    //   if (!sessionInfo.available || !sessionInfo.hasSigner) {
-    //     throw new Error("Remote signer not properly initialized")
-    //   }
-    //   
-    //   // Use the remote signer's nip04_decrypt method
-    //   const decrypted = await remoteSignerManager.nip04Decrypt(userPubkey, encryptedData)
-    //   console.log("[Kind30001Journal] ✅ Decrypted with remote signer")
-    //   
-    //   // Parse the JSON content
-    //   const journalData = JSON.parse(decrypted)
-    //   console.log("[Kind30001Journal] 📄 Decrypted journal data:", journalData.title)
-    //   return journalData
-    //   
-    // }
+    const remote: Event = entry.conflict.event
+    await journalOutbox.settle(entry, null)
+    // Replace the local edit in the cache too, or it would be queued again as pending
+    await journalCache.removeAddresses([entry.address])
+    await journalCache.putEvents([remote])
     
+    const note = await decryptJournalEvent(remote, authData, pubkey)
+    return { success: true, note: note || undefined }
   } catch (error) {
-    console.error("[Kind30001Journal] Failed to decrypt Kind 30001 content:", error)
-    return null
+    console.error("[Kind30001Journal] ❌ Failed to keep the other device's version:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
   }
 }
 
+// What one relay holds compared to the newest version of the journal
+export interface RelayRepairStatus {
+  relay: string
+  holds: number // Newest versions (and deletions) the relay already has
+  missing: Event[] // Newest versions and deletions to copy to the relay
+  stale: number // Addresses where the relay serves an older version
+  error?: string // The relay could not be scanned, so nothing is copied to it
+}
+
+// Result of a repair scan; a dry run stops here
+export interface JournalRepairPlan {
+  scannedAt: Date
+  latestEvents: number // Events that make up the newest state of the journal
+  relays: RelayRepairStatus[]
+}
+
+export interface JournalRepairProgress {
+  phase: "scanning" | "copying"
+  done: number
+  total: number
+}
+
+export interface JournalRepairResult {
+  copied: number
+  failed: { relay: string; eventId: string; message: string }[]
+}
+
 /**
- * Sync function - reload from Kind 30001 lists
+ * Relays a repair copies to: the journal storage relays when set, else the journal
+ * relays plus the ones configured in RelayManager
  */
-export async function syncFromKind30001(authData: any): Promise<DecryptedNote[]> {
-  console.log("[Kind30001Journal] Syncing from Kind 30001 lists...")
-  
-  // Sync is just the same as loading from Kind 30001 lists
-  const notes = await loadJournalFromKind30001(authData)
-  
-  console.log(`[Kind30001Journal] Sync complete: ${notes.length} journal entries loaded from Kind 30001 lists`)
-  return notes
+function getRepairTargetRelays(): string[] {
+  if (getJournalStorageRelays()) return Array.from(new Set([...getJournalReadRelays(), ...getJournalWriteRelays()]))
+  return Array.from(new Set([...DEFAULT_RELAYS, ...getJournalReadRelays(), ...getJournalWriteRelays(), ...getRelayUrls()]))
 }
 
 /**
- * Delete a journal entry by publishing a Kind 5 deletion event
+ * Relays a repair scans: the targets plus everywhere the journal may have been kept
+ * before, so moving to journal storage relays can copy existing entries over
  */
-export async function deleteJournalKind30001(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }> {
-  if (!note.eventId) {
-    return { success: false, error: "No event ID to delete" }
-  }
+function getRepairRelays(): string[] {
+  return Array.from(new Set([
+    ...getRepairTargetRelays(),
+    ...DEFAULT_RELAYS,
+    ...(getRelayListUrls("write") ?? []),
+    ...getRelayUrls(),
+  ]))
+}
+
+/**
+ * Addressable events the journal consists of: entries, the trash list and the secret
+ */
+function isJournalOwnedEvent(event: Event): boolean {
+  return isJournalEntryEvent(event) ||
+    isTrashEvent(event) ||
+    (event.kind === JOURNAL_LAYOUT.kind && getDTag(event) === JOURNAL_SECRET_D_TAG)
+}
+
+/**
+ * Whether a NIP-01 address (`kind:pubkey:d`) is one of the user's journal entries or trash lists
+ */
+function isJournalAddress(address: string | undefined, pubkey: string): boolean {
+  const [kind, author, ...rest] = (address || "").split(":")
+  const dTag = rest.join(":")
+  return author === pubkey && (
+    getEntryLayout(Number(kind), dTag) !== undefined ||
+    READABLE_LAYOUTS.some(layout => layout.kind === Number(kind) && layout.trashDTag === dTag)
+  )
+}
 
+/**
+ * Everything one relay has from the user under the journal kinds and kind 5,
+ * paged with `until`. Throws if the relay stops answering part way, since a
+ * partial scan would report events as missing that the relay does hold.
+ */
+async function fetchRelayJournalEvents(relay: string, pubkey: string): Promise<Event[]> {
+  const pool = getPool()
+  const eventsById = new Map<string, Event>()
+  const subscriptions = new Set<RelaySubscription>()
   try {
-    // Create Kind 5 deletion event for the Kind 30001 event ID
-    const deletionEvent = {
-      kind: DELETION_KIND,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [
-        ["e", note.eventId], // Kind 30001 event ID to delete
-      ],
-      content: "Deleted a journal entry from Nostr Journal.",
-      pubkey: authData.pubkey,
+    for (const kinds of [JOURNAL_KINDS, [DELETION_KIND]]) {
+      const cursor: RelayPageCursor = { relay, filter: { kinds, authors: [pubkey], limit: JOURNAL_PAGE_SIZE }, seenIds: new Set(), done: false }
+      while (!cursor.done) {
+        const reachedEose = await withPageTimeout(streamNextPage(pool, cursor, event => eventsById.set(event.id, event), subscriptions), REPAIR_QUERY_WAIT_MS)
+        if (!reachedEose) throw new Error("Relay did not finish answering")
+      }
     }
+  } finally {
+    subscriptions.forEach(subscription => subscription.close())
+  }
+  return Array.from(eventsById.values())
+}
 
-    const signedEvent = await signEventWithRemote(deletionEvent, authData)
-    console.log("[Kind30001Journal] Publishing Kind 5 deletion event for Kind 30001 event:", signedEvent.id)
-    
-    const pool = getPool()
-    const relays = await pool.publish(RELAYS, signedEvent)
-    
-    return { success: true }
-    
-  } catch (error) {
-    console.error("[Kind30001Journal] Error deleting journal entry:", error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error"
+/**
+ * Dry run: ask every relay what it holds and work out which newest versions and
+ * deletions each one lacks. Nothing is published.
+ */
+export async function scanJournalRelays(
+  authData: any,
+  onProgress?: (progress: JournalRepairProgress) => void,
+): Promise<JournalRepairPlan> {
+  const pubkey = await getSignerPubkey(authData)
+  const relays = getRepairRelays()
+  const heldByRelay = new Map<string, Set<string>>() // relay -> event ids
+  const newestByRelay = new Map<string, Map<string, Event>>() // relay -> address -> newest event there
+  const deletionsById = new Map<string, Event>()
+  const errors = new Map<string, string>()
+  let done = 0
+  onProgress?.({ phase: "scanning", done, total: relays.length })
+  
+  await Promise.all(relays.map(async relay => {
+    try {
+      // Connect first so an unreachable relay is reported as such rather than as a timeout
+      await getPool().ensureRelay(relay, { connectionTimeout: REPAIR_QUERY_WAIT_MS })
+      const events = (await fetchRelayJournalEvents(relay, pubkey)).filter(event => !getAuthenticityProblem(event, pubkey))
+      heldByRelay.set(relay, new Set(events.map(event => event.id)))
+      events.filter(event => event.kind === DELETION_KIND).forEach(event => deletionsById.set(event.id, event))
+      const newest = new Map<string, Event>()
+      events.filter(isJournalOwnedEvent).forEach(event => {
+        const address = getEventAddress(event)
+        const current = newest.get(address)
+        if (!current || isNewerVersion(event, current)) newest.set(address, event)
+      })
+      newestByRelay.set(relay, newest)
+    } catch (error) {
+      console.warn("[Kind30001Journal] ⚠️ Could not scan", relay, "for repair:", error)
+      errors.set(relay, error instanceof Error ? error.message : "Could not connect")
     }
+    onProgress?.({ phase: "scanning", done: ++done, total: relays.length })
+  }))
+  
+  // The newest version of each address anywhere, including published events cached on this device
+  const latest = new Map<string, Event>()
+  const offer = (event: Event) => {
+    const address = getEventAddress(event)
+    const current = latest.get(address)
+    if (!current || isNewerVersion(event, current)) latest.set(address, event)
+  }
+  newestByRelay.forEach(newest => newest.forEach(offer))
+  for (const cached of await journalCache.getEvents(pubkey)) {
+    // Unpublished edits are the outbox's job
+    if (!cached.pending && isJournalOwnedEvent(cached.event) && !getAuthenticityProblem(cached.event, pubkey)) offer(cached.event)
   }
+  
+  // Deletions of journal events are copied too, so a repaired relay doesn't keep deleted entries
+  const journalEventIds = new Set<string>()
+  latest.forEach(event => journalEventIds.add(event.id))
+  knownVersionIds.forEach(ids => ids.forEach(id => journalEventIds.add(id)))
+  const deletions = Array.from(deletionsById.values()).filter(deletion => deletion.tags.some(tag =>
+    (tag[0] === "e" && journalEventIds.has(tag[1])) ||
+    (tag[0] === "a" && isJournalAddress(tag[1], pubkey))
+  ))
+  
+  const { validEvents } = filterDeletedEvents(Array.from(latest.values()), deletions, pubkey)
+  const wanted = [...validEvents, ...deletions]
+  
+  // Public relays are only read from once journal storage relays are set
+  const statuses: RelayRepairStatus[] = getRepairTargetRelays().map(relay => {
+    const error = errors.get(relay)
+    if (error) return { relay, holds: 0, missing: [], stale: 0, error }
+    const held = heldByRelay.get(relay)!
+    const newest = newestByRelay.get(relay)!
+    const missing = wanted.filter(event => !held.has(event.id))
+    const stale = validEvents.filter(event => {
+      const there = newest.get(getEventAddress(event))
+      return there !== undefined && there.id !== event.id
+    }).length
+    return { relay, holds: wanted.length - missing.length, missing, stale }
+  })
+  
+  console.log("[Kind30001Journal] 🩺 Repair scan:", statuses.map(status => `${status.relay}: ${status.error || `${status.missing.length} missing`}`).join(", "))
+  return { scannedAt: new Date(), latestEvents: wanted.length, relays: statuses }
 }
 
-// Clean up global pool
-export function cleanupPool() {
-  if (globalPool) {
-    globalPool.close(RELAYS)
-    globalPool = null
-    console.log("[Kind30001Journal] Pool cleaned up")
+/**
+ * Copy what a scan found missing to each relay. The events are republished exactly
+ * as signed, so nothing needs the signer. Relays that could not be scanned are skipped.
+ */
+export async function repairJournalRelays(
+  plan: JournalRepairPlan,
+  onProgress?: (progress: JournalRepairProgress) => void,
+): Promise<JournalRepairResult> {
+  const result: JournalRepairResult = { copied: 0, failed: [] }
+  const total = plan.relays.reduce((sum, status) => sum + status.missing.length, 0)
+  let done = 0
+  onProgress?.({ phase: "copying", done, total })
+  
+  const publishTo = async (relay: string, event: Event): Promise<{ accepted: boolean; message: string; prefix?: string }> => {
+    try {
+      await getPool().publish([relay], event)[0]
+      return { accepted: true, message: "" }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const ok = interpretOkMessage(relay, false, message)
+      return { accepted: ok.accepted, message, prefix: ok.prefix }
+    }
   }
+  
+  // Relays in parallel, one event at a time per relay so none of them is flooded
+  await Promise.all(plan.relays.filter(status => !status.error).map(async status => {
+    for (const event of status.missing) {
+      let outcome = await publishTo(status.relay, event)
+      if (outcome.prefix === "rate-limited") {
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_RETRY_DELAY_MS))
+        outcome = await publishTo(status.relay, event)
+      }
+      if (outcome.accepted) {
+        result.copied++
+      } else {
+        result.failed.push({ relay: status.relay, eventId: event.id, message: outcome.message })
+      }
+      onProgress?.({ phase: "copying", done: ++done, total })
+    }
+  }))
+  
+  console.log("[Kind30001Journal] 🩹 Repair copied", result.copied, "events,", result.failed.length, "failed")
+  return result
+}
+
+export interface JournalChangeHandlers {
+  onNoteChanged: (note: DecryptedNote) => void
+  onNotesDeleted: (noteIds: string[]) => void
+  onTrashChanged?: (trash: TrashedJournalEntry[]) => void
+  onConflict?: () => void // A queued edit was overtaken and is now held
 }
 
 /**
- * Deterministic encryption based on pubkey for consistency across login methods
+ * Keep a subscription open on each relay and reopen it with backoff when the
+ * relay closes it or the connection drops (SimplePool never reconnects). A
+ * reopened subscription asks for events since the newest one seen, less
+ * `lookbackSeconds` for events whose created_at can lag behind. Events are
+ * handed over once even when several relays send them. Returns a function
+ * that closes everything.
  */
-async function deterministicEncrypt(pubkey: string, plaintext: string): Promise<string> {
-  console.log("[Kind30001Journal] 🔐 Deterministic encryption for pubkey:", pubkey)
+export function subscribeWithReconnect(
+  relays: string[],
+  filter: Filter,
+  since: number,
+  onEvent: (event: Event) => void,
+  lookbackSeconds = 0,
+): () => void {
+  const seenIds = new Set<string>()
+  const subscriptions = new Set<RelaySubscription>()
+  const timers = new Set<ReturnType<typeof setTimeout>>()
+  let closed = false
   
-  // Use the same deterministic method as nostr-crypto.ts
-  const encoder = new TextEncoder()
-  const encryptionKey = encoder.encode(pubkey).slice(0, 32)
+  const open = (relay: string, failures: number) => {
+    if (closed) return
+    let reachedEose = false
+    const subscription = getPool().subscribeMany([relay], { ...filter, since }, {
+      onevent: (event) => {
+        since = Math.max(since, event.created_at - lookbackSeconds)
+        if (seenIds.has(event.id)) return
+        seenIds.add(event.id)
+        onEvent(event)
+      },
+      oneose: () => {
+        reachedEose = true
+      },
+      onclose: (reasons) => {
+        subscriptions.delete(subscription)
+        if (closed) return
+        // A subscription that got as far as EOSE was working; start the backoff over
+        const attempts = reachedEose ? 1 : failures + 1
+        const delay = getRetryDelay(attempts)
+        console.warn("[Kind30001Journal] ⚠️ Live subscription on", relay, "closed:", reasons.join(", "), "- reopening in", delay, "ms")
+        const timer = setTimeout(() => {
+          timers.delete(timer)
+          open(relay, attempts)
+        }, delay)
+        timers.add(timer)
+      },
+    })
+    subscriptions.add(subscription)
+  }
   
-  const keyMaterial = await crypto.subtle.importKey("raw", encryptionKey.slice(0, 32), { name: "PBKDF2" }, false, [
-    "deriveKey",
-  ])
+  relays.forEach(relay => open(relay, 0))
+  return () => {
+    closed = true
+    timers.forEach(timer => clearTimeout(timer))
+    subscriptions.forEach(subscription => subscription.close())
+  }
+}
+
+/**
+ * Keep a subscription open for the user's journal events and report newer
+ * versions and deletions published from other devices as they arrive.
+ * Returns a function that closes the subscription.
+ */
+export async function subscribeToJournalChanges(authData: any, handlers: JournalChangeHandlers): Promise<() => void> {
+  const pubkey = await getSignerPubkey(authData)
+  const handledDeletions = new Set<string>()
+  let queue = Promise.resolve()
   
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: encoder.encode("nostr-journal-self-encrypt"),
-      iterations: 100000,
-      hash: "SHA-256",
+  const close = subscribeWithReconnect(
+    getJournalReadRelays(),
+    { kinds: [...JOURNAL_KINDS, DELETION_KIND], authors: [pubkey] },
+    Math.floor(Date.now() / 1000),
+    (event) => {
+      // One event at a time, in arrival order - remote signers decrypt sequentially too
+      queue = queue
+        .then(async () => {
+          // Our own saves echoed back by relays are already applied
+          if (locallySignedEventIds.has(event.id)) return
+          const problem = getAuthenticityProblem(event, pubkey)
+          if (problem) {
+            console.warn("[Kind30001Journal] 🚫 Ignoring live event", event.id, "-", problem)
+            return
+          }
+          if (event.kind === DELETION_KIND) {
+            if (handledDeletions.has(event.id)) return
+            handledDeletions.add(event.id)
+            const deletedNoteIds = await applyLiveDeletion(event, pubkey)
+            if (deletedNoteIds.length > 0) handlers.onNotesDeleted(deletedNoteIds)
+          } else {
+            await applyLiveJournalEvent(event, authData, pubkey, handlers)
+          }
+        })
+        .catch(error => console.error("[Kind30001Journal] ❌ Failed to apply live event:", event.id, error))
     },
-    keyMaterial,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["encrypt"],
   )
   
-  const iv = crypto.getRandomValues(new Uint8Array(12))
-  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(plaintext))
-  
-  const combined = new Uint8Array(iv.length + encrypted.byteLength)
-  combined.set(iv)
-  combined.set(new Uint8Array(encrypted), iv.length)
-  
-  return btoa(String.fromCharCode(...combined))
+  console.log("[Kind30001Journal] 📡 Subscribed to live journal changes")
+  return close
 }
 
 /**
- * Deterministic decryption based on pubkey for consistency across login methods
+ * Apply a journal or trash event from another device, if it is newer than what we have
  */
-async function deterministicDecrypt(pubkey: string, encryptedData: string): Promise<string> {
-  console.log("[Kind30001Journal] 🔓 Deterministic decryption for pubkey:", pubkey)
+async function applyLiveJournalEvent(event: Event, authData: any, pubkey: string, handlers: JournalChangeHandlers): Promise<void> {
+  const address = getEventAddress(event)
+  const dTag = event.tags.find(tag => tag[0] === "d")?.[1] || ""
+  if (event.tags.find(tag => tag[0] === "p")?.[1] !== pubkey) return
+  
+  const ids = knownVersionIds.get(dTag) || new Set<string>()
+  ids.add(event.id)
+  knownVersionIds.set(dTag, ids)
   
-  // Use the same deterministic method as nostr-crypto.ts
-  const decoder = new TextDecoder()
-  const encoder = new TextEncoder()
+  // Before the newer-than check: a local edit still queued may be newer than this event
+  if (await detectOutboxConflicts(pubkey, [event]) > 0) {
+    handlers.onConflict?.()
+  }
+  
+  const cached = await journalCache.getEvent(address)
+  if (cached && !isNewerVersion(event, cached.event)) return
   
-  const combined = Uint8Array.from(atob(encryptedData), (c) => c.charCodeAt(0))
-  const iv = combined.slice(0, 12)
-  const encrypted = combined.slice(12)
+  if (isTrashEvent(event)) {
+    await journalCache.putEvents([event])
+    await readJournalTrash(event, authData, pubkey)
+    handlers.onTrashChanged?.(journalTrash)
+    return
+  }
+  if (!isJournalEntryEvent(event)) return
   
-  const encryptionKey = encoder.encode(pubkey).slice(0, 32)
+  const tombstonedAt = getJournalTombstones(pubkey)[dTag]
+  if (tombstonedAt !== undefined && event.created_at <= tombstonedAt) return
   
-  const keyMaterial = await crypto.subtle.importKey("raw", encryptionKey.slice(0, 32), { name: "PBKDF2" }, false, [
-    "deriveKey",
-  ])
+  await journalCache.putEvents([event])
   
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: encoder.encode("nostr-journal-self-encrypt"),
-      iterations: 100000,
-      hash: "SHA-256",
-    },
-    keyMaterial,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["decrypt"],
+  // The entry's id may only be known from its content
+  const note = await decryptJournalEvent(event, authData, pubkey)
+  const trashed = note && journalTrashItems.find(item => item.noteId === note.id)
+  if (trashed && event.created_at <= trashed.trashedAt) return
+  
+  if (note) {
+    console.log("[Kind30001Journal] 🔄 Entry changed on another device:", note.id)
+    handlers.onNoteChanged(note)
+  }
+}
+
+/**
+ * Drop entries a live kind 5 event deleted from the cache. Returns their note ids.
+ */
+async function applyLiveDeletion(deletion: Event, pubkey: string): Promise<string[]> {
+  const deletedIds = new Set(deletion.tags.filter(tag => tag[0] === "e").map(tag => tag[1]))
+  const deletedAddresses = new Set(
+    deletion.tags
+      .filter(tag => tag[0] === "a" && JOURNAL_KINDS.some(kind => tag[1]?.startsWith(`${kind}:${pubkey}:`)))
+      .map(tag => tag[1])
+  )
+  
+  // Only the version we hold matters: deleting an older version leaves the entry in place
+  const removed = (await journalCache.getEvents(pubkey)).filter(cached =>
+    deletedIds.has(cached.event.id) ||
+    (deletedAddresses.has(cached.address) && cached.event.created_at <= deletion.created_at)
   )
+  await journalCache.removeAddresses(removed.map(cached => cached.address))
   
-  const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, encrypted)
-  return decoder.decode(decrypted)
+  return removed
+    .map(cached => getAddressNoteId(cached.address))
+    .filter((noteId): noteId is string => noteId !== null)
+}
+
+// Clean up global pool
+export function cleanupPool() {
+  if (globalPool) {
+    // Every connection, including relays that were dropped from the settings since
+    globalPool.destroy()
+    globalPool = null
+    console.log("[Kind30001Journal] Pool cleaned up")
+  }
 }
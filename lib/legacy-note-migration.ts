@@ -0,0 +1,118 @@
+/**
+ * Legacy Note Migration - brings kind 30078 notes written by saveNoteToNostr
+ * (lib/nostr-storage.ts) into the current journal format
+ */
+
+import type { DecryptedNote } from "./nostr-crypto"
+import { fetchAllNotesFromNostr, deleteNoteOnNostr, clearUserCache } from "./nostr-storage"
+import { saveJournalAsKind30001 } from "./kind30001-journal"
+
+export type LegacyDuplicateReason = "same-id" | "same-content"
+
+export interface LegacyNoteCandidate {
+  note: DecryptedNote
+  duplicateOf?: { noteId: string; reason: LegacyDuplicateReason } // Matching entry already in the journal
+}
+
+export interface LegacyMigrationResult {
+  migrated: DecryptedNote[]
+  failed: { note: DecryptedNote; error: string }[]
+  deletedOriginals: number
+}
+
+function sameText(a: DecryptedNote, b: DecryptedNote): boolean {
+  return a.title.trim() === b.title.trim() && a.content.trim() === b.content.trim()
+}
+
+/**
+ * Find legacy kind 30078 notes and flag the ones the journal already has
+ */
+export async function findLegacyNotes(authData: any, existingNotes: DecryptedNote[]): Promise<LegacyNoteCandidate[]> {
+  // The legacy fetch keeps a 5 minute cache; a scan should see what relays have now
+  clearUserCache(authData)
+  const legacyNotes = await fetchAllNotesFromNostr(authData)
+
+  // Relays can return more than one version of a note; keep the newest per id
+  const newestById = new Map<string, DecryptedNote>()
+  for (const note of legacyNotes) {
+    if (!note?.id) continue
+    const known = newestById.get(note.id)
+    const modified = new Date(note.lastModified || note.createdAt).getTime()
+    if (!known || modified > new Date(known.lastModified || known.createdAt).getTime()) {
+      newestById.set(note.id, note)
+    }
+  }
+
+  const existingById = new Map(existingNotes.map((note) => [note.id, note]))
+  const candidates = Array.from(newestById.values()).map((note): LegacyNoteCandidate => {
+    const sameId = existingById.get(note.id)
+    if (sameId) {
+      return { note, duplicateOf: { noteId: sameId.id, reason: sameText(sameId, note) ? "same-content" : "same-id" } }
+    }
+    const sameContent = existingNotes.find((existing) => sameText(existing, note))
+    return sameContent ? { note, duplicateOf: { noteId: sameContent.id, reason: "same-content" } } : { note }
+  })
+
+  console.log("[LegacyMigration] 🔎 Found", candidates.length, "legacy notes,", candidates.filter((c) => c.duplicateOf).length, "already in the journal")
+  return candidates.sort(
+    (a, b) => new Date(b.note.lastModified || b.note.createdAt).getTime() - new Date(a.note.lastModified || a.note.createdAt).getTime(),
+  )
+}
+
+/**
+ * Republish legacy notes as current journal entries and, if asked, delete the
+ * originals. An original is only deleted once its copy was saved.
+ */
+export async function migrateLegacyNotes(
+  notes: DecryptedNote[],
+  authData: any,
+  existingNotes: DecryptedNote[],
+  options: { deleteOriginals: boolean; onProgress?: (done: number, total: number) => void },
+): Promise<LegacyMigrationResult> {
+  const existingIds = new Set(existingNotes.map((note) => note.id))
+  const result: LegacyMigrationResult = { migrated: [], failed: [], deletedOriginals: 0 }
+
+  // Sequential on purpose - remote signers handle one request at a time
+  for (const legacyNote of notes) {
+    // A note whose id is taken is imported as a copy rather than over the journal entry
+    const note: DecryptedNote = {
+      id: existingIds.has(legacyNote.id) ? `${Date.now()}-${legacyNote.id}` : legacyNote.id,
+      title: legacyNote.title,
+      content: legacyNote.content,
+      tags: legacyNote.tags || [],
+      createdAt: new Date(legacyNote.createdAt),
+      lastModified: new Date(legacyNote.lastModified || legacyNote.createdAt),
+    }
+
+    const saved = await saveJournalAsKind30001(note, authData)
+    if (!saved.success) {
+      console.error("[LegacyMigration] ❌ Failed to migrate note:", legacyNote.id, saved.error)
+      result.failed.push({ note: legacyNote, error: saved.error || "Unknown error" })
+      options.onProgress?.(result.migrated.length + result.failed.length, notes.length)
+      continue
+    }
+
+    existingIds.add(note.id)
+    result.migrated.push({
+      ...note,
+      eventId: saved.eventId,
+      eventCreatedAt: saved.eventCreatedAt,
+      syncStatus: saved.pending ? "local" : "synced",
+    })
+
+    if (options.deleteOriginals) {
+      try {
+        await deleteNoteOnNostr(legacyNote, authData)
+        result.deletedOriginals++
+      } catch (error) {
+        // The copy is saved; the original just stays behind
+        console.warn("[LegacyMigration] ⚠️ Could not delete original note:", legacyNote.id, error)
+      }
+    }
+    options.onProgress?.(result.migrated.length + result.failed.length, notes.length)
+  }
+
+  if (options.deleteOriginals) clearUserCache(authData)
+  console.log(`[LegacyMigration] ✅ Migration complete: ${result.migrated.length} migrated, ${result.failed.length} failed, ${result.deletedOriginals} originals deleted`)
+  return result
+}
@@ -0,0 +1,145 @@
+"use client"
+
+/**
+ * Local Journal - Entries kept in this browser's localStorage only
+ * Nothing is published. Each entry is encrypted to the user's own key with the
+ * journal envelope (NIP-44 v2, padded), so the stored copy is as unreadable as
+ * one on a relay, and stored per pubkey so several accounts can share a browser.
+ */
+
+import { bytesToHex, randomBytes } from "@noble/hashes/utils"
+import type { DecryptedNote } from "./nostr-crypto"
+import { encryptJournalPayload, decryptJournalPayload } from "./journal-envelope"
+import { getSignerPubkey, type JournalSaveResult } from "./kind30001-journal"
+
+// Version ids handed out as the note's eventId, so the app treats a stored entry as saved
+const LOCAL_VERSION_PREFIX = "local-"
+
+interface StoredLocalEntry {
+  versionId: string
+  savedAt: number // unix seconds
+  content: string // Journal envelope of the note's JSON
+}
+
+function getLocalJournalStorageKey(pubkey: string): string {
+  return `nostr_journal_local_entries_${pubkey}`
+}
+
+function readLocalEntries(pubkey: string): Record<string, StoredLocalEntry> {
+  if (typeof window === "undefined") return {}
+
+  try {
+    const stored = localStorage.getItem(getLocalJournalStorageKey(pubkey))
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error("[LocalJournal] ❌ Stored entries are not valid JSON:", error)
+    return {}
+  }
+}
+
+// Throws when the browser refuses the write (storage full or disabled)
+function writeLocalEntries(pubkey: string, entries: Record<string, StoredLocalEntry>): void {
+  if (typeof window === "undefined") throw new Error("Local storage is not available")
+  localStorage.setItem(getLocalJournalStorageKey(pubkey), JSON.stringify(entries))
+}
+
+/**
+ * Whether an eventId is a local version id rather than a Nostr event id
+ */
+export function isLocalJournalVersion(eventId: string): boolean {
+  return eventId.startsWith(LOCAL_VERSION_PREFIX)
+}
+
+/**
+ * Decrypt every entry stored on this device. Entries in an envelope this
+ * version can't read come back read-only.
+ */
+export async function loadLocalJournal(authData: any): Promise<DecryptedNote[]> {
+  const pubkey = await getSignerPubkey(authData)
+  const notes: DecryptedNote[] = []
+
+  // Sequential on purpose - remote signers handle one request at a time
+  for (const [noteId, entry] of Object.entries(readLocalEntries(pubkey))) {
+    const decrypted = await decryptJournalPayload(entry.content, authData, pubkey)
+    if (decrypted.status === "failed") {
+      console.warn("[LocalJournal] ⚠️ Could not decrypt entry:", noteId, decrypted.error)
+      continue
+    }
+    if (decrypted.status === "unsupported") {
+      notes.push({
+        id: noteId,
+        title: "Unreadable entry",
+        content: "",
+        tags: [],
+        createdAt: new Date(entry.savedAt * 1000),
+        eventId: entry.versionId,
+        eventCreatedAt: entry.savedAt,
+        envelopeVersion: decrypted.version,
+        unreadableReason: decrypted.reason,
+      })
+      continue
+    }
+
+    const parsed = JSON.parse(decrypted.plaintext)
+    notes.push({
+      id: noteId,
+      title: parsed.title,
+      content: parsed.content,
+      tags: parsed.tags || [],
+      createdAt: new Date(parsed.createdAt),
+      lastModified: new Date(parsed.lastModified || parsed.createdAt),
+      eventId: entry.versionId,
+      eventCreatedAt: entry.savedAt,
+      syncStatus: "local",
+      encryptionScheme: decrypted.alg,
+      envelopeVersion: decrypted.version,
+    })
+  }
+
+  console.log("[LocalJournal] 📂 Loaded", notes.length, "entries from this device")
+  return notes
+}
+
+/**
+ * Encrypt an entry and store it on this device, replacing its previous version
+ */
+export async function saveLocalJournalEntry(note: DecryptedNote, authData: any): Promise<JournalSaveResult> {
+  try {
+    const pubkey = await getSignerPubkey(authData)
+    const plaintext = JSON.stringify({
+      title: note.title,
+      content: note.content,
+      tags: note.tags,
+      createdAt: note.createdAt,
+      lastModified: note.lastModified || new Date(),
+    })
+    const entry: StoredLocalEntry = {
+      versionId: LOCAL_VERSION_PREFIX + bytesToHex(randomBytes(16)),
+      savedAt: Math.floor(Date.now() / 1000),
+      content: await encryptJournalPayload(plaintext, authData, pubkey),
+    }
+
+    writeLocalEntries(pubkey, { ...readLocalEntries(pubkey), [note.id]: entry })
+    console.log("[LocalJournal] 💾 Saved entry on this device:", note.id)
+    return { success: true, eventId: entry.versionId, eventCreatedAt: entry.savedAt }
+  } catch (error) {
+    console.error("[LocalJournal] ❌ Failed to save entry:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+/**
+ * Remove an entry from this device for good
+ */
+export async function deleteLocalJournalEntry(note: DecryptedNote, authData: any): Promise<{ success: boolean; error?: string }> {
+  try {
+    const pubkey = await getSignerPubkey(authData)
+    const { [note.id]: _removed, ...remaining } = readLocalEntries(pubkey)
+    writeLocalEntries(pubkey, remaining)
+    console.log("[LocalJournal] 🗑️ Deleted entry from this device:", note.id)
+    return { success: true }
+  } catch (error) {
+    console.error("[LocalJournal] ❌ Failed to delete entry:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
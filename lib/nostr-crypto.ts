@@ -1,6 +1,9 @@
 // Nostr cryptography utilities for encrypted note storage
 // Using simplified encryption for demo - in production use proper NIP-44 implementation
 
+import type { JournalEnvelopeAlgorithm } from "./journal-envelope"
+import type { RelayReceipts } from "./journal-outbox"
+
 export interface EncryptedNote {
   id: string
   encryptedData: string
@@ -20,6 +23,12 @@ export interface DecryptedNote {
   syncStatus?: "local" | "syncing" | "synced" | "error"
   syncError?: string
   eventId?: string // Added to track the Nostr event ID for NIP-09 deletion
+  eventCreatedAt?: number // created_at of eventId; with it, the base version the next edit is made from
+  eventKind?: number // Kind of the event the entry was loaded from
+  encryptionScheme?: JournalEnvelopeAlgorithm // Algorithm the loaded event was encrypted with
+  envelopeVersion?: number // 0 for bare legacy blobs written before the envelope
+  unreadableReason?: string // Set when the entry uses an envelope this version can't read
+  relayReceipts?: RelayReceipts // What each relay answered to the latest save, or which relays served it
 }
 
 // Generate a deterministic key from user's pubkey for local encryption
@@ -27,7 +36,7 @@ function generateStorageKey(pubkey: string): string {
   return `nostr_journal_${pubkey.slice(0, 16)}`
 }
 
-async function encryptData(data: string, pubkey: string): Promise<{ encrypted: string; iv: string }> {
+export async function encryptData(data: string, pubkey: string): Promise<{ encrypted: string; iv: string }> {
   const encoder = new TextEncoder()
 
   // Derive encryption key from pubkey
@@ -61,7 +70,7 @@ async function encryptData(data: string, pubkey: string): Promise<{ encrypted: s
   }
 }
 
-async function decryptData(encryptedData: string, iv: string, pubkey: string): Promise<string> {
+export async function decryptData(encryptedData: string, iv: string, pubkey: string): Promise<string> {
   try {
     console.log("[DecryptData] Starting decryption process")
     const decoder = new TextDecoder()
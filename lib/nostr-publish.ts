@@ -1,9 +1,11 @@
 "use client"
 
 import * as nostrTools from "nostr-tools"
-import { getSmartRelayList, getRelays } from "./relay-manager"
+import { getSmartRelayList, getRelays, getSavedRelayUrls, getJournalStorageRelays, getPublicJournalRelays } from "./relay-manager"
+import { getRelayListUrls } from "./relay-list"
 import { signEventWithRemote } from "./signer-manager"
 import { validateEvent, logValidationResult } from "./event-validator"
+import { parseOkMessage, describeOkResult, RATE_LIMIT_RETRY_DELAY_MS, type RelayOkResult, type RelayPublishResult } from "./relay-ok"
 
 export const createNostrEvent = async (pubkey: string, content: string, tags: string[] = []) => {
   console.log("[NostrPublish] 📝 Creating event with content length:", content.length)
@@ -87,14 +89,27 @@ export const publishToNostr = async (unsignedEvent: any, authData: any): Promise
   console.log("[Publish] 🔍 Event signature valid:", !!signedEvent.sig)
   console.log("[Publish] 🆔 Event ID:", signedEvent.id)
 
-  // Get smart relay list with fallback
+  // Publish relays: the user's NIP-65 write relays, else the ones saved in the relay
+  // manager, else the smart relay list with fallback
   let relays: string[]
-  try {
-    relays = await getSmartRelayList()
-    console.log("[Publish] 📡 Using smart relay list:", relays)
-  } catch (error) {
-    console.warn("[Publish] ⚠️ Failed to get smart relays, using fallback:", error)
-    relays = getRelays()
+  const publishRelays = getRelayListUrls("write") ?? getSavedRelayUrls()
+  if (publishRelays) {
+    relays = publishRelays
+    console.log("[Publish] 📡 Using publish relays:", relays)
+  } else {
+    try {
+      relays = await getSmartRelayList()
+      console.log("[Publish] 📡 Using smart relay list:", relays)
+    } catch (error) {
+      console.warn("[Publish] ⚠️ Failed to get smart relays, using fallback:", error)
+      relays = getRelays()
+    }
+  }
+  
+  // Journal storage relays are meant to be private; the relay manager warns about overlaps too
+  const sharedJournalRelays = getPublicJournalRelays(getJournalStorageRelays() ?? [], relays)
+  if (sharedJournalRelays.length > 0) {
+    console.warn("[Publish] ⚠️ Public post also goes to journal storage relays:", sharedJournalRelays)
   }
   
   // Publish to each relay individually and track results
@@ -118,29 +133,45 @@ export const publishToNostr = async (unsignedEvent: any, authData: any): Promise
 }
 
 // Helper function to publish to relays individually and track results
-async function publishToRelaysIndividually(signedEvent: any, relays: string[]): Promise<Array<{url: string, success: boolean, error?: string}>> {
-  const results = []
+async function publishToRelaysIndividually(signedEvent: any, relays: string[]): Promise<RelayPublishResult[]> {
+  const results: RelayPublishResult[] = []
   
   for (const relayUrl of relays) {
-    try {
-      console.log("[Publish] 📤 Publishing to", relayUrl)
-      const success = await publishToSingleRelay(relayUrl, signedEvent)
-      results.push({ url: relayUrl, success })
-      if (success) {
-        console.log("[Publish] ✅ Success on", relayUrl)
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : "Unknown error"
-      console.error("[Publish] ❌ Failed on", relayUrl, ":", errorMsg)
-      results.push({ url: relayUrl, success: false, error: errorMsg })
+    results.push(await publishAndRecord(relayUrl, signedEvent))
+  }
+  
+  // Rate-limited relays usually take the event a little later
+  const rateLimited = results.filter(r => r.prefix === "rate-limited")
+  if (rateLimited.length > 0) {
+    console.log("[Publish] ⏳ Retrying", rateLimited.length, "rate-limited relay(s) in", RATE_LIMIT_RETRY_DELAY_MS / 1000, "seconds")
+    await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_RETRY_DELAY_MS))
+    for (const previous of rateLimited) {
+      results[results.indexOf(previous)] = await publishAndRecord(previous.url, signedEvent)
     }
   }
   
   return results
 }
 
+// Publish to one relay and turn its answer (or a connection failure) into a result
+async function publishAndRecord(relayUrl: string, signedEvent: any): Promise<RelayPublishResult> {
+  try {
+    console.log("[Publish] 📤 Publishing to", relayUrl)
+    const okResult = await publishToSingleRelay(relayUrl, signedEvent)
+    if (okResult.accepted) {
+      console.log("[Publish] ✅ Success on", relayUrl)
+      return { url: relayUrl, success: true, prefix: okResult.prefix }
+    }
+    return { url: relayUrl, success: false, error: describeOkResult(okResult), prefix: okResult.prefix, retryable: okResult.retryable }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : "Unknown error"
+    console.error("[Publish] ❌ Failed on", relayUrl, ":", errorMsg)
+    return { url: relayUrl, success: false, error: errorMsg, retryable: true }
+  }
+}
+
 // Helper function to publish to a single relay with proper OK response handling
-async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise<boolean> {
+async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise<RelayOkResult> {
   return new Promise((resolve, reject) => {
     const ws = new WebSocket(relayUrl)
     let resolved = false
@@ -162,17 +193,22 @@ async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise
       try {
         const data = JSON.parse(msg.data)
         
-        if (data[0] === "OK" && data[1] === signedEvent.id) {
+        const okResult = parseOkMessage(relayUrl, data, signedEvent.id)
+        if (okResult) {
           if (!resolved) {
             resolved = true
             clearTimeout(timeout)
             ws.close()
-            console.log("[Publish] ✅ Received OK from", relayUrl)
-            resolve(true)
+            if (okResult.accepted) {
+              console.log("[Publish] ✅ Received OK from", relayUrl, okResult.prefix === "duplicate" ? "(already had it)" : "")
+            } else {
+              console.error("[Publish] ❌ Relay rejected event:", relayUrl, "Reason:", okResult.message || "Unknown reason")
+            }
+            resolve(okResult)
           }
         } else if (data[0] === "NOTICE") {
           console.warn("[Publish] ⚠️ Notice from", relayUrl, ":", data[1])
-        } else if (data[0] === "OK" && data[1] !== signedEvent.id) {
+        } else if (data[0] === "OK") {
           // Different event ID - this shouldn't happen but let's log it
           console.warn("[Publish] ⚠️ Unexpected event ID in OK response from", relayUrl)
         }
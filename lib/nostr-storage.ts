@@ -3,8 +3,10 @@
 import { NostrFetcher } from "nostr-fetch"
 import * as nostrTools from "nostr-tools"
 import type { DecryptedNote } from "./nostr-crypto"
-import { getSmartRelayList, getRelays } from "./relay-manager"
+import { getSmartRelayList, getRelays, getJournalStorageRelays } from "./relay-manager"
+import { getRelayListUrls, type RelayUsage } from "./relay-list"
 import { signEventWithRemote } from "./signer-manager"
+import { parseOkMessage, describeOkResult, RATE_LIMIT_RETRY_DELAY_MS, type RelayOkResult, type RelayPublishResult } from "./relay-ok"
 // Simple in-memory cache for events
 const eventCache = new Map<string, any>()
 
@@ -14,9 +16,10 @@ const eventCache = new Map<string, any>()
 
 /**
  * Publish to a single relay with proper OK response handling
- * Waits for relay to accept/reject the event before resolving
+ * Resolves with what the relay answered (accepted or not); rejects only when
+ * the relay never answered
  */
-async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise<boolean> {
+async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise<RelayOkResult> {
   return new Promise((resolve, reject) => {
     const ws = new WebSocket(relayUrl)
     let resolved = false
@@ -38,20 +41,18 @@ async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise
       try {
         const data = JSON.parse(msg.data)
         
-        if (data[0] === "OK" && data[1] === signedEvent.id) {
+        const okResult = parseOkMessage(relayUrl, data, signedEvent.id)
+        if (okResult) {
           if (!resolved) {
             resolved = true
             clearTimeout(timeout)
             ws.close()
-            
-            if (data[2] === true) {
-              console.log("[Storage] ✅ Received OK from", relayUrl)
-              resolve(true)
+            if (okResult.accepted) {
+              console.log("[Storage] ✅ Received OK from", relayUrl, okResult.prefix === "duplicate" ? "(already had it)" : "")
             } else {
-              // Relay rejected the event - log the reason
-              console.error("[Storage] ❌ Relay rejected event:", relayUrl, "Reason:", data[3])
-              reject(new Error(`Relay rejected: ${data[3] || "Unknown reason"}`))
+              console.error("[Storage] ❌ Relay rejected event:", relayUrl, "Reason:", okResult.message || "Unknown reason")
             }
+            resolve(okResult)
           }
         } else if (data[0] === "NOTICE") {
           console.warn("[Storage] ⚠️ Notice from", relayUrl, ":", data[1])
@@ -84,32 +85,51 @@ async function publishToSingleRelay(relayUrl: string, signedEvent: any): Promise
 }
 
 /**
- * Publish to multiple relays individually and track results
+ * Publish to multiple relays individually and track results. Rate-limited
+ * relays get one more try after a short wait.
  */
 async function publishToRelaysIndividually(
   signedEvent: any, 
   relays: string[]
-): Promise<Array<{url: string, success: boolean, error?: string}>> {
-  const results = []
+): Promise<RelayPublishResult[]> {
+  const results: RelayPublishResult[] = []
   
   for (const relayUrl of relays) {
-    try {
-      console.log("[Storage] 📤 Publishing to", relayUrl)
-      const success = await publishToSingleRelay(relayUrl, signedEvent)
-      results.push({ url: relayUrl, success })
-      if (success) {
-        console.log("[Storage] ✅ Success on", relayUrl)
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : "Unknown error"
-      console.error("[Storage] ❌ Failed on", relayUrl, ":", errorMsg)
-      results.push({ url: relayUrl, success: false, error: errorMsg })
+    results.push(await publishAndRecord(relayUrl, signedEvent))
+  }
+  
+  // Rate-limited relays usually take the event a little later
+  const rateLimited = results.filter(r => r.prefix === "rate-limited")
+  if (rateLimited.length > 0) {
+    console.log("[Storage] ⏳ Retrying", rateLimited.length, "rate-limited relay(s) in", RATE_LIMIT_RETRY_DELAY_MS / 1000, "seconds")
+    await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_RETRY_DELAY_MS))
+    for (const previous of rateLimited) {
+      results[results.indexOf(previous)] = await publishAndRecord(previous.url, signedEvent)
     }
   }
   
   return results
 }
 
+/**
+ * Publish to one relay and turn its answer (or a connection failure) into a result
+ */
+async function publishAndRecord(relayUrl: string, signedEvent: any): Promise<RelayPublishResult> {
+  try {
+    console.log("[Storage] 📤 Publishing to", relayUrl)
+    const okResult = await publishToSingleRelay(relayUrl, signedEvent)
+    if (okResult.accepted) {
+      console.log("[Storage] ✅ Success on", relayUrl)
+      return { url: relayUrl, success: true, prefix: okResult.prefix }
+    }
+    return { url: relayUrl, success: false, error: describeOkResult(okResult), prefix: okResult.prefix, retryable: okResult.retryable }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : "Unknown error"
+    console.error("[Storage] ❌ Failed on", relayUrl, ":", errorMsg)
+    return { url: relayUrl, success: false, error: errorMsg, retryable: true }
+  }
+}
+
 // ===================================================================================
 // SMART RELAY MANAGEMENT: Dynamic relay selection with health checking
 // ===================================================================================
@@ -261,8 +281,13 @@ async function decryptNote(encryptedData: string, authData: any): Promise<Decryp
   }
 }
 
-// Get current relay list with caching and user preferences
-async function getCurrentRelays(): Promise<string[]> {
+// Get current relay list with caching and user preferences.
+// Notes are private, so the journal storage relays win; then the user's NIP-65
+// relay list: read relays for fetching, write relays for publishing.
+async function getCurrentRelays(usage: RelayUsage = "read"): Promise<string[]> {
+  const listed = getJournalStorageRelays() ?? getRelayListUrls(usage)
+  if (listed) return listed
+
   const now = Date.now()
 
   if (cachedRelays.length > 0 && now - lastRelayCheck < RELAY_CACHE_DURATION) {
@@ -313,123 +338,65 @@ async function getCurrentRelays(): Promise<string[]> {
   return cachedRelays
 }
 
-// Fetches all individual note events with smart relay management
-export const fetchAllNotesFromNostr = async (authData: any): Promise<DecryptedNote[]> => {
-  if (!authData?.pubkey) return []
-
-  // Use request deduplication to avoid duplicate fetches
-  return dedupeRelayFetch(
-    await getCurrentRelays(),
-    [{ kinds: [30078], authors: [authData.pubkey] }],
-    async () => {
-      const fetcher = NostrFetcher.init()
-      try {
-        const relays = await getCurrentRelays()
-        console.log("[NostrJournal] 📡 Fetching notes from relays:", relays)
-
-    // Step 1: Fetch note events (kind 30078) with caching
-    const cacheKey = `events_${authData.pubkey}_30078`
-    let events = eventCache.get(cacheKey)
-    
-    if (!events) {
-      console.log("[NostrJournal] Cache MISS - fetching events from relays")
-      events = await fetcher.fetchAllEvents(
-        relays,
-        { kinds: [30078], authors: [authData.pubkey] },
-        { sort: true }, // Sort by created_at descending
-      )
-      // Cache for 5 minutes
-      eventCache.set(cacheKey, events)
-    } else {
-      console.log("[NostrJournal] Cache HIT - using cached events")
-    }
-
-    console.log(`[v0] Found ${events.length} note events`)
+// Newest note event per d-tag (kind 30078, this app's prefix), without the ones deleted via kind 5
+async function fetchNoteEvents(fetcher: NostrFetcher, relays: string[], pubkey: string): Promise<nostrTools.Event[]> {
+  const [events, deletionEvents] = await Promise.all([
+    fetcher.fetchAllEvents(relays, { kinds: [30078], authors: [pubkey] }, {}, { sort: true }),
+    fetcher.fetchAllEvents(relays, { kinds: [5], authors: [pubkey] }, {}),
+  ])
+  console.log(`[NostrJournal] Found ${events.length} note events and ${deletionEvents.length} deletion events`)
 
-    // Step 2: Fetch deletion events (kind 5) to filter out deleted notes with caching
-    const deletionCacheKey = `events_${authData.pubkey}_5`
-    let deletionEvents = eventCache.get(deletionCacheKey)
-    
-    if (!deletionEvents) {
-      console.log("[NostrJournal] Cache MISS - fetching deletion events from relays")
-      deletionEvents = await fetcher.fetchAllEvents(
-        relays,
-        { kinds: [5], authors: [authData.pubkey] },
-        { sort: true }, // Sort by created_at descending
-      )
-      // Cache for 5 minutes
-      eventCache.set(deletionCacheKey, deletionEvents)
-    } else {
-      console.log("[NostrJournal] Cache HIT - using cached deletion events")
-    }
+  // NIP-09 deletion events have 'e' tags with the event IDs being deleted
+  const deletedEventIds = new Set(
+    deletionEvents.flatMap((event) => event.tags.filter((tag) => tag[0] === "e" && tag[1]).map((tag) => tag[1])),
+  )
 
-    console.log(`[v0] Found ${deletionEvents.length} deletion events`)
+  // Sorted newest first, so the first event seen for a d-tag is its current version
+  const newestByDTag = new Map<string, nostrTools.Event>()
+  for (const event of events) {
+    const dTag = event.tags.find((tag) => tag[0] === "d")?.[1]
+    if (!dTag?.startsWith(APP_D_TAG_PREFIX) || newestByDTag.has(dTag)) continue
+    newestByDTag.set(dTag, event)
+  }
+  return Array.from(newestByDTag.values()).filter((event) => !deletedEventIds.has(event.id))
+}
 
-    // Step 3: Create a set of deleted event IDs
-    const deletedEventIds = new Set<string>()
-    deletionEvents.forEach((deletionEvent, index) => {
-      console.log(`[v0] Deletion event ${index + 1}:`, {
-        id: deletionEvent.id,
-        tags: deletionEvent.tags,
-        content: deletionEvent.content
-      })
-      
-      // NIP-09 deletion events have 'e' tags with the event IDs being deleted
-      deletionEvent.tags.forEach(tag => {
-        if (tag[0] === 'e' && tag[1]) {
-          console.log(`[v0] Found deleted event ID: ${tag[1]}`)
-          deletedEventIds.add(tag[1])
+async function decryptNoteEvents(events: nostrTools.Event[], authData: any): Promise<DecryptedNote[]> {
+  const notes = await Promise.all(
+    events.map(async (event) => {
+      try {
+        // Decrypted notes are cached by event id, so fetching again is cheap
+        const cacheKey = `decrypted_${event.id}_${authData.pubkey}`
+        let note = eventCache.get(cacheKey)
+        if (!note) {
+          note = await decryptNote(event.content, authData)
+          eventCache.set(cacheKey, note)
         }
-      })
-    })
 
-    console.log(`[v0] Found ${deletedEventIds.size} deleted event IDs:`, Array.from(deletedEventIds))
-
-    // Step 4: Filter events that have our app's d tag prefix AND are not deleted
-    const appEvents = events.filter((event) => {
-      const dTag = event.tags.find((tag) => tag[0] === "d")
-      const isAppEvent = dTag && dTag[1]?.startsWith(APP_D_TAG_PREFIX)
-      const isDeleted = deletedEventIds.has(event.id)
-      
-      console.log(`[v0] Event ${event.id}: isApp=${isAppEvent}, isDeleted=${isDeleted}`)
-      
-      if (isDeleted) {
-        console.log(`[v0] 🗑️ Skipping deleted event: ${event.id}`)
+        // Store the event ID and kind on the note object to enable deletion later
+        note.eventId = event.id
+        note.eventKind = event.kind
+        return note as DecryptedNote
+      } catch (error) {
+        console.error("[NostrJournal] Error decrypting note:", error)
+        return null
       }
-      
-      return isAppEvent && !isDeleted
-    })
-
-    console.log(`[v0] Filtered to ${appEvents.length} app-specific events (excluding deleted)`)
+    }),
+  )
+  return notes.filter((note): note is DecryptedNote => note !== null)
+}
 
-    // Use cache for decryption - much faster for repeated fetches
-    const notes = await Promise.all(
-      appEvents.map(async (event) => {
-        try {
-          // Check cache first for decrypted note
-          const cacheKey = `decrypted_${event.id}_${authData.pubkey}`
-          let note = eventCache.get(cacheKey)
-          
-          if (!note) {
-            // Cache miss - decrypt and cache
-            note = await decryptNote(event.content, authData)
-            eventCache.set(cacheKey, note)
-          } else {
-            console.log(`[v0] Cache HIT for decrypted note: ${event.id.substring(0, 8)}`)
-          }
-          
-          // Store the event ID and kind on the note object to enable deletion later
-          note.eventId = event.id
-          note.eventKind = event.kind // Store the kind used (30078 or 31078)
-          return note
-        } catch (error) {
-          console.error("[NostrJournal] Error decrypting note:", error)
-          return null
-        }
-      }),
-    )
+// Fetches all individual note events (kind 30078) from the current relays
+export const fetchAllNotesFromNostr = async (authData: any): Promise<DecryptedNote[]> => {
+  if (!authData?.pubkey) return []
 
-    return notes.filter((note): note is DecryptedNote => note !== null)
+  const fetcher = NostrFetcher.init()
+  try {
+    const relays = await getCurrentRelays()
+    console.log("[NostrJournal] 📡 Fetching notes from relays:", relays)
+    const events = await fetchNoteEvents(fetcher, relays, authData.pubkey)
+    console.log(`[NostrJournal] Filtered to ${events.length} app-specific events (excluding deleted)`)
+    return await decryptNoteEvents(events, authData)
   } catch (error) {
     console.error("[NostrJournal] ❌ Error fetching notes from Nostr:", error)
 
@@ -440,61 +407,23 @@ export const fetchAllNotesFromNostr = async (authData: any): Promise<DecryptedNo
     ) {
       console.log("[NostrJournal] 🔄 Network error detected, trying fallback relays...")
       try {
-        const fallbackRelays = getRelays()
-        const fallbackEvents = await fetcher.fetchAllEvents(
-          fallbackRelays,
-          { kinds: [30078], authors: [authData.pubkey] },
-          { sort: true },
-        )
-
-        const fallbackAppEvents = fallbackEvents.filter((event) => {
-          const dTag = event.tags.find((tag) => tag[0] === "d")
-          return dTag && dTag[1]?.startsWith(APP_D_TAG_PREFIX)
-        })
-
-        const fallbackNotes = await Promise.all(
-          fallbackAppEvents.map(async (event) => {
-            try {
-              // Check cache first for decrypted note
-              const cacheKey = `decrypted_${event.id}_${authData.pubkey}`
-              let note = eventCache.get(cacheKey)
-              
-              if (!note) {
-                // Cache miss - decrypt and cache
-                note = await decryptNote(event.content, authData)
-                eventCache.set(cacheKey, note)
-              } else {
-                console.log(`[v0] Cache HIT for fallback decrypted note: ${event.id.substring(0, 8)}`)
-              }
-              
-              note.eventId = event.id
-              note.eventKind = event.kind // Store the kind used (30078 or 31078)
-              return note
-            } catch (error) {
-              console.error("[NostrJournal] Error decrypting fallback note:", error)
-              return null
-            }
-          }),
-        )
-
-        console.log(`[v0] ✅ Fallback fetch successful: ${fallbackNotes.filter((n) => n !== null).length} notes`)
-        return fallbackNotes.filter((note): note is DecryptedNote => note !== null)
+        const fallbackEvents = await fetchNoteEvents(fetcher, getRelays(), authData.pubkey)
+        const fallbackNotes = await decryptNoteEvents(fallbackEvents, authData)
+        console.log(`[NostrJournal] ✅ Fallback fetch successful: ${fallbackNotes.length} notes`)
+        return fallbackNotes
       } catch (fallbackError) {
         console.error("[NostrJournal] ❌ Fallback fetch also failed:", fallbackError)
       }
     }
 
-        return []
-      } finally {
-        try {
-          fetcher.shutdown()
-        } catch (shutdownError) {
-          // Silently ignore shutdown errors - relay may already be disconnected
-          // This prevents "failed to close subscription" errors from polluting logs
-        }
-      }
+    return []
+  } finally {
+    try {
+      fetcher.shutdown()
+    } catch (shutdownError) {
+      // Silently ignore shutdown errors - relay may already be disconnected
     }
-  )
+  }
 }
 
 // Saves a SINGLE note as its own event
@@ -563,7 +492,7 @@ export const saveNoteToNostr = async (note: DecryptedNote, authData: any): Promi
     }
 
     // Publish to relays with proper OK response handling
-    const relays = await getCurrentRelays()
+    const relays = await getCurrentRelays("write")
     console.log("[Storage] 📤 Publishing note event to relays:", relays)
     console.log("[Storage] 📝 Event details:", { 
       id: signedEvent.id, 
@@ -614,14 +543,15 @@ export const deleteNoteOnNostr = async (noteToDelete: DecryptedNote, authData: a
   if (!noteToDelete.eventId) {
     console.log("[NostrJournal] Note has no eventId, searching for it on Nostr...")
     
+    const fetcher = NostrFetcher.init()
     try {
       const relays = await getCurrentRelays()
-      const fetcher = NostrFetcher.init()
       
       const dTag = `${APP_D_TAG_PREFIX}${noteToDelete.id}`
       const events = await fetcher.fetchAllEvents(
         relays,
         { kinds: [30078], authors: [authData.pubkey], "#d": [dTag] },
+        {},
         { sort: true }
       )
       
@@ -743,7 +673,7 @@ export const deleteNoteOnNostr = async (noteToDelete: DecryptedNote, authData: a
         throw new Error("Unsupported authentication method.")
     }
 
-    const relays = await getCurrentRelays()
+    const relays = await getCurrentRelays("write")
     console.log(`[Storage] 📤 Publishing kind:5 deletion for event ${noteToDelete.eventId}`)
     
     const relayResults = await publishToRelaysIndividually(signedEvent, relays)
@@ -0,0 +1,64 @@
+/**
+ * PBKDF2 + AES-256-GCM decryption of legacy journal payloads
+ * Shared by the crypto worker and the main-thread fallback. Derived keys are
+ * cached by key id, so 100,000 PBKDF2 iterations run once per key per session
+ * instead of once per event.
+ */
+
+export interface Pbkdf2DecryptRequest {
+  keyId: string // Identifies the derived key in the cache; never contains key material
+  keySource: Uint8Array
+  salt: string
+  iterations: number
+  ct: string // base64, 12-byte IV prefixed to the ciphertext
+}
+
+export type Pbkdf2DecryptResult = { ok: true; plaintext: string } | { ok: false; error: string }
+
+export type DerivedKeyCache = Map<string, Promise<CryptoKey>>
+
+function deriveKey(request: Pbkdf2DecryptRequest, cache: DerivedKeyCache): Promise<CryptoKey> {
+  const cached = cache.get(request.keyId)
+  if (cached) return cached
+
+  const derived = (async () => {
+    const keyMaterial = await crypto.subtle.importKey("raw", request.keySource.slice(0, 32), { name: "PBKDF2" }, false, [
+      "deriveKey",
+    ])
+    return crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: new TextEncoder().encode(request.salt),
+        iterations: request.iterations,
+        hash: "SHA-256",
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["decrypt"],
+    )
+  })()
+
+  // A failed derivation is not cached, so the next request tries again
+  derived.catch(() => cache.delete(request.keyId))
+  cache.set(request.keyId, derived)
+  return derived
+}
+
+async function decryptOne(request: Pbkdf2DecryptRequest, cache: DerivedKeyCache): Promise<Pbkdf2DecryptResult> {
+  try {
+    const key = await deriveKey(request, cache)
+    const combined = Uint8Array.from(atob(request.ct), (c) => c.charCodeAt(0))
+    const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: combined.slice(0, 12) }, key, combined.slice(12))
+    return { ok: true, plaintext: new TextDecoder().decode(decrypted) }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : "Decryption failed" }
+  }
+}
+
+/**
+ * Decrypt a batch; each request succeeds or fails on its own
+ */
+export function decryptPbkdf2Batch(requests: Pbkdf2DecryptRequest[], cache: DerivedKeyCache): Promise<Pbkdf2DecryptResult[]> {
+  return Promise.all(requests.map((request) => decryptOne(request, cache)))
+}
@@ -0,0 +1,216 @@
+"use client"
+
+/**
+ * Relay List - The user's NIP-65 relay list (kind 10002)
+ * Each `r` tag names a relay, optionally marked "read" or "write" (no marker
+ * means both). Write relays are where the user publishes, read relays are
+ * where the app loads from. The list is fetched on login and cached per pubkey
+ * so the next session can use it before relays answer.
+ */
+
+import { SimplePool, type Event } from "nostr-tools"
+import { signEventWithRemote } from "./signer-manager"
+import { getDefaultRelays, getRelayUrls } from "./relay-manager"
+
+export const RELAY_LIST_KIND = 10002
+
+export interface RelayListEntry {
+  url: string
+  read: boolean
+  write: boolean
+}
+
+export interface RelayList {
+  entries: RelayListEntry[]
+  createdAt: number // created_at of the kind 10002 event, 0 if never published
+}
+
+export type RelayUsage = "read" | "write"
+
+// Relays that index kind 10002 lists for everyone, asked in addition to the user's own
+const RELAY_LIST_INDEXERS = ["wss://purplepag.es", "wss://relay.nostr.band"]
+
+// How long login waits for relays to return the list
+const RELAY_LIST_WAIT_MS = 4000
+
+const RELAY_LIST_STORAGE_PREFIX = "nostr_relay_list_"
+
+// List of the logged-in user; null until loaded or when they have none
+let activeRelayList: RelayList | null = null
+
+// Whether the list above is known: a cached copy was used or relays were asked
+let relayListLoaded = false
+
+let pool: SimplePool | null = null
+
+function getPool(): SimplePool {
+  if (!pool) pool = new SimplePool()
+  return pool
+}
+
+function normalizeRelayUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "")
+}
+
+/**
+ * Read the relays of a kind 10002 event. Unknown markers are ignored, duplicates merged.
+ */
+export function parseRelayList(event: Pick<Event, "tags" | "created_at">): RelayList {
+  const byUrl = new Map<string, RelayListEntry>()
+  for (const tag of event.tags) {
+    if (tag[0] !== "r" || typeof tag[1] !== "string" || !/^wss?:\/\//.test(tag[1])) continue
+    const url = normalizeRelayUrl(tag[1])
+    const marker = tag[2]
+    const entry = byUrl.get(url) || { url, read: false, write: false }
+    entry.read = entry.read || marker !== "write"
+    entry.write = entry.write || marker !== "read"
+    byUrl.set(url, entry)
+  }
+  return { entries: Array.from(byUrl.values()), createdAt: event.created_at }
+}
+
+/**
+ * `r` tags for a relay list; relays used for neither reading nor writing are left out
+ */
+export function buildRelayListTags(entries: RelayListEntry[]): string[][] {
+  return entries
+    .filter((entry) => entry.read || entry.write)
+    .map((entry) => {
+      if (entry.read && entry.write) return ["r", entry.url]
+      return ["r", entry.url, entry.read ? "read" : "write"]
+    })
+}
+
+function loadCachedRelayList(pubkey: string): RelayList | null {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = localStorage.getItem(RELAY_LIST_STORAGE_PREFIX + pubkey)
+    return stored ? JSON.parse(stored) : null
+  } catch (error) {
+    console.warn("[RelayList] ⚠️ Failed to read cached relay list:", error)
+    return null
+  }
+}
+
+function saveCachedRelayList(pubkey: string, list: RelayList): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(RELAY_LIST_STORAGE_PREFIX + pubkey, JSON.stringify(list))
+  } catch (error) {
+    console.warn("[RelayList] ⚠️ Failed to cache relay list:", error)
+  }
+}
+
+/**
+ * Fetch the newest kind 10002 of a pubkey from the indexers and the configured relays
+ */
+export async function fetchRelayList(pubkey: string): Promise<RelayList | null> {
+  const relays = Array.from(new Set([...RELAY_LIST_INDEXERS, ...getDefaultRelays(), ...getRelayUrls()]))
+  const events = await getPool().querySync(
+    relays,
+    { kinds: [RELAY_LIST_KIND], authors: [pubkey] },
+    { maxWait: RELAY_LIST_WAIT_MS },
+  )
+  // Replaceable: the newest one is the list
+  const newest = events
+    .filter((event) => event.pubkey === pubkey)
+    .sort((a, b) => b.created_at - a.created_at)[0]
+  return newest ? parseRelayList(newest) : null
+}
+
+/**
+ * Make the user's relay list active. A cached list is used right away and
+ * refreshed in the background; without one, this waits for relays.
+ */
+export async function loadRelayList(pubkey: string): Promise<RelayList | null> {
+  const cached = loadCachedRelayList(pubkey)
+  activeRelayList = cached
+  relayListLoaded = cached !== null
+
+  const refresh = fetchRelayList(pubkey)
+    .then((fetched) => {
+      if (fetched && fetched.createdAt > (activeRelayList?.createdAt ?? 0)) {
+        console.log("[RelayList] 📋 Loaded relay list with", fetched.entries.length, "relays")
+        activeRelayList = fetched
+        saveCachedRelayList(pubkey, fetched)
+      }
+      relayListLoaded = true
+      return activeRelayList
+    })
+    .catch((error) => {
+      console.warn("[RelayList] ⚠️ Could not fetch relay list:", error)
+      return activeRelayList
+    })
+
+  return cached ?? refresh
+}
+
+/**
+ * The active relay list, or null when the user has none
+ */
+export function getActiveRelayList(): RelayList | null {
+  return activeRelayList
+}
+
+/**
+ * True once the relay list was read from the cache or fetched from relays,
+ * even if the user turned out to have none
+ */
+export function isRelayListLoaded(): boolean {
+  return relayListLoaded
+}
+
+/**
+ * Relays the user's list marks for reading or writing; null without a list
+ */
+export function getRelayListUrls(usage: RelayUsage): string[] | null {
+  const urls = activeRelayList?.entries.filter((entry) => entry[usage]).map((entry) => entry.url) ?? []
+  return urls.length > 0 ? urls : null
+}
+
+/**
+ * Sign and publish a new relay list. It goes to the old and new write relays
+ * and the indexers, so clients following the old list find the new one.
+ * Journal storage relays are private and never part of it.
+ */
+export async function publishRelayList(entries: RelayListEntry[], authData: any): Promise<RelayList> {
+  const tags = buildRelayListTags(entries.map((entry) => ({ ...entry, url: normalizeRelayUrl(entry.url) })))
+  if (tags.length === 0) {
+    throw new Error("A relay list needs at least one relay")
+  }
+
+  const unsignedEvent = {
+    kind: RELAY_LIST_KIND,
+    created_at: Math.max(Math.floor(Date.now() / 1000), (activeRelayList?.createdAt ?? 0) + 1),
+    tags,
+    content: "",
+    pubkey: authData.pubkey,
+  }
+  const signedEvent: Event = await signEventWithRemote(unsignedEvent, authData)
+
+  const list = parseRelayList(signedEvent)
+  const targets = Array.from(
+    new Set([
+      ...list.entries.filter((entry) => entry.write).map((entry) => entry.url),
+      ...(getRelayListUrls("write") ?? []),
+      ...RELAY_LIST_INDEXERS,
+    ]),
+  )
+  console.log("[RelayList] 📤 Publishing relay list to", targets.length, "relays")
+  await Promise.any(getPool().publish(targets, signedEvent))
+
+  activeRelayList = list
+  relayListLoaded = true
+  saveCachedRelayList(signedEvent.pubkey, list)
+  return list
+}
+
+/**
+ * Forget the active list (on logout); the cached copy stays for the next login
+ */
+export function clearRelayList(): void {
+  activeRelayList = null
+  relayListLoaded = false
+}
@@ -163,6 +163,29 @@ export function getRelays(): string[] {
   return RELAY_CONFIG.primary
 }
 
+// Configured relay URLs. The login page and RelayManager store relay objects
+// ({ url, enabled }) under the same key, so both shapes are accepted.
+export function getRelayUrls(): string[] {
+  return (getRelays() as unknown[])
+    .map((relay) => {
+      if (typeof relay === "string") return relay
+      if (!isStoredRelay(relay) || relay.enabled === false) return null
+      return relay.url
+    })
+    .filter((url): url is string => typeof url === "string" && url.length > 0)
+}
+
+function isStoredRelay(relay: unknown): relay is { url?: unknown; enabled?: unknown } {
+  return typeof relay === "object" && relay !== null
+}
+
+// Publish relays the user saved in the relay manager; null when none were ever saved
+export function getSavedRelayUrls(): string[] | null {
+  if (typeof window === "undefined" || !localStorage.getItem("nostr_user_relays")) return null
+  const urls = getRelayUrls()
+  return urls.length > 0 ? urls : null
+}
+
 // Save custom relay configuration
 export function saveRelays(relays: string[]): void {
   if (typeof window === "undefined") return
@@ -175,6 +198,48 @@ export function saveRelays(relays: string[]): void {
   }
 }
 
+// Relays that hold the encrypted journal, kept apart from the public publishing relays.
+// Empty means the journal uses the same relays as everything else.
+const JOURNAL_RELAYS_STORAGE_KEY = "nostr_journal_relays"
+
+export function getJournalStorageRelays(): string[] | null {
+  if (typeof window === "undefined") return null
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(JOURNAL_RELAYS_STORAGE_KEY) || "[]")
+    return Array.isArray(saved) && saved.length > 0 ? saved : null
+  } catch {
+    return null
+  }
+}
+
+export function saveJournalStorageRelays(relays: string[]): void {
+  if (typeof window === "undefined") return
+
+  try {
+    if (relays.length > 0) {
+      localStorage.setItem(JOURNAL_RELAYS_STORAGE_KEY, JSON.stringify(relays))
+    } else {
+      localStorage.removeItem(JOURNAL_RELAYS_STORAGE_KEY)
+    }
+    console.log("[NostrJournal] 💾 Saved journal storage relays:", relays)
+  } catch (error) {
+    console.error("[NostrJournal] Failed to save journal storage relays:", error)
+  }
+}
+
+// Journal storage relays that are also used for public posts (trailing slashes ignored)
+export function getPublicJournalRelays(journalRelays: string[], publicRelays: string[]): string[] {
+  const normalize = (url: string) => url.trim().replace(/\/+$/, "")
+  const publicSet = new Set(publicRelays.map(normalize))
+  return journalRelays.filter((relay) => publicSet.has(normalize(relay)))
+}
+
+// Every relay public posts can go to when the user has no relay list (see getSmartRelayList)
+export function getPublicRelayCandidates(): string[] {
+  return [...RELAY_CONFIG.primary, ...RELAY_CONFIG.fallback]
+}
+
 // Get default relay configuration
 export function getDefaultRelays(): string[] {
   return [...RELAY_CONFIG.primary]
@@ -0,0 +1,108 @@
+/**
+ * Relay OK - NIP-01 `["OK", <event id>, <true|false>, <message>]` responses
+ * The message starts with a machine-readable prefix ("blocked: ...") that
+ * says why a relay refused an event, or that it already had it.
+ */
+
+export type RelayOkPrefix =
+  | "duplicate"
+  | "pow"
+  | "blocked"
+  | "rate-limited"
+  | "invalid"
+  | "auth-required"
+  | "restricted"
+  | "error"
+
+export interface RelayOkResult {
+  relay: string
+  accepted: boolean // The relay stored the event (or already had it)
+  prefix?: RelayOkPrefix
+  message: string
+  retryable: boolean // Publishing again later may succeed
+}
+
+// One relay's outcome when publishing over a dedicated WebSocket
+export interface RelayPublishResult {
+  url: string
+  success: boolean
+  error?: string
+  prefix?: RelayOkPrefix
+  retryable?: boolean
+}
+
+const OK_PREFIXES: RelayOkPrefix[] = [
+  "duplicate",
+  "pow",
+  "blocked",
+  "rate-limited",
+  "invalid",
+  "auth-required",
+  "restricted",
+  "error",
+]
+
+// Rejections that won't change by trying again. auth-required counts: we don't do NIP-42 AUTH.
+const PERMANENT_PREFIXES = new Set<RelayOkPrefix>(["pow", "blocked", "invalid", "auth-required", "restricted"])
+
+export const RELAY_OK_LABELS: Record<RelayOkPrefix, string> = {
+  duplicate: "Already had it",
+  pow: "Needs proof of work",
+  blocked: "Blocked by relay",
+  "rate-limited": "Rate limited",
+  invalid: "Rejected as invalid",
+  "auth-required": "Needs login (AUTH)",
+  restricted: "Not allowed to write",
+  error: "Relay error",
+}
+
+// How long to wait before publishing again to a relay that rate-limited us
+export const RATE_LIMIT_RETRY_DELAY_MS = 5000
+
+/**
+ * Read the machine-readable prefix of an OK message, if it has a known one
+ */
+export function getOkPrefix(message: string | undefined): RelayOkPrefix | undefined {
+  const match = /^([a-z-]+):/.exec((message || "").trim())
+  return match && (OK_PREFIXES as string[]).includes(match[1]) ? (match[1] as RelayOkPrefix) : undefined
+}
+
+/**
+ * True when the relay refused the event for a reason retrying won't fix
+ */
+export function isPermanentRejection(prefix: RelayOkPrefix | undefined): boolean {
+  return !!prefix && PERMANENT_PREFIXES.has(prefix)
+}
+
+/**
+ * Interpret what a relay said about an event. A "duplicate:" rejection still
+ * means the relay holds the event.
+ */
+export function interpretOkMessage(relay: string, ok: boolean, message?: string): RelayOkResult {
+  const prefix = getOkPrefix(message)
+  const accepted = ok || prefix === "duplicate"
+  return {
+    relay,
+    accepted,
+    prefix,
+    message: message || "",
+    retryable: !accepted && !isPermanentRejection(prefix),
+  }
+}
+
+/**
+ * Parse a raw relay message; returns null unless it is the OK for this event
+ */
+export function parseOkMessage(relay: string, data: unknown, eventId: string): RelayOkResult | null {
+  if (!Array.isArray(data) || data[0] !== "OK" || data[1] !== eventId) return null
+  return interpretOkMessage(relay, data[2] === true, typeof data[3] === "string" ? data[3] : undefined)
+}
+
+/**
+ * Short human-readable description of a rejection for the UI
+ */
+export function describeOkResult(result: Pick<RelayOkResult, "prefix" | "message">): string {
+  if (!result.prefix) return result.message || "Rejected"
+  const detail = result.message.slice(result.prefix.length + 1).trim()
+  return detail ? `${RELAY_OK_LABELS[result.prefix]}: ${detail}` : RELAY_OK_LABELS[result.prefix]
+}
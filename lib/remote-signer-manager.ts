@@ -199,6 +199,56 @@ class RemoteSignerManager {
     }
   }
 
+  /**
+   * Encrypt data using remote signer's nip44_encrypt
+   */
+  async nip44Encrypt(pubkey: string, plaintext: string): Promise<string> {
+    if (!this.session) {
+      throw new Error("No remote signer session available")
+    }
+
+    console.log("[RemoteSignerManager] 🔐 Encrypting with nip44...")
+
+    try {
+      // Check if the signer has nip44Encrypt method
+      if (typeof this.session.signer.nip44Encrypt === 'function') {
+        const encrypted = await this.session.signer.nip44Encrypt(pubkey, plaintext)
+        console.log("[RemoteSignerManager] ✅ Encrypted successfully")
+        return encrypted
+      } else {
+        throw new Error("Remote signer does not support nip44_encrypt")
+      }
+    } catch (error) {
+      console.error("[RemoteSignerManager] ❌ Encryption failed:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Decrypt data using remote signer's nip44_decrypt
+   */
+  async nip44Decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    if (!this.session) {
+      throw new Error("No remote signer session available")
+    }
+
+    console.log("[RemoteSignerManager] 🔓 Decrypting with nip44...")
+
+    try {
+      // Check if the signer has nip44Decrypt method
+      if (typeof this.session.signer.nip44Decrypt === 'function') {
+        const decrypted = await this.session.signer.nip44Decrypt(pubkey, ciphertext)
+        console.log("[RemoteSignerManager] ✅ Decrypted successfully")
+        return decrypted
+      } else {
+        throw new Error("Remote signer does not support nip44_decrypt")
+      }
+    } catch (error) {
+      console.error("[RemoteSignerManager] ❌ Decryption failed:", error)
+      throw error
+    }
+  }
+
   /**
    * Request specific permissions from remote signer
    */
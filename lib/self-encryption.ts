@@ -0,0 +1,122 @@
+"use client"
+
+/**
+ * Self Encryption - NIP-44 v2 encryption to the user's own key
+ * Routes every operation through the signer the user logged in with, so the
+ * conversation key is never derivable from public data.
+ */
+
+import { nip44 } from "nostr-tools"
+import { hexToBytes } from "nostr-tools/utils"
+
+// Conversation keys derived from the nsec this session, by "<privkey pubkey>:<peer>"
+const conversationKeys = new Map<string, Uint8Array>()
+
+function getConversationKey(authData: any, peer: string): Uint8Array {
+  const cacheKey = `${authData.pubkey}:${peer}`
+  let conversationKey = conversationKeys.get(cacheKey)
+  if (!conversationKey) {
+    conversationKey = nip44.v2.utils.getConversationKey(hexToBytes(authData.privateKey), peer)
+    conversationKeys.set(cacheKey, conversationKey)
+  }
+  return conversationKey
+}
+
+/**
+ * Forget cached conversation keys (on logout)
+ */
+export function clearSelfEncryptionKeys(): void {
+  conversationKeys.clear()
+}
+
+/**
+ * Encrypt plaintext to the user's own pubkey with NIP-44 v2 using the active signer
+ */
+export async function nip44EncryptToSelf(plaintext: string, authData: any, pubkey?: string): Promise<string> {
+  const selfPubkey = pubkey || authData.pubkey
+  console.log("[SelfEncryption] 🔐 NIP-44 encrypting to self with auth method:", authData.authMethod)
+
+  if (authData.authMethod === "nsec") {
+    if (!authData.privateKey) {
+      throw new Error("Private key not available")
+    }
+    const conversationKey = getConversationKey(authData, selfPubkey)
+    return nip44.v2.encrypt(plaintext, conversationKey)
+  }
+
+  if (authData.authMethod === "extension") {
+    if (!window.nostr) {
+      throw new Error("Nostr extension not found")
+    }
+    if (!window.nostr.nip44) {
+      throw new Error("Nostr extension does not support NIP-44 encryption")
+    }
+    return window.nostr.nip44.encrypt(selfPubkey, plaintext)
+  }
+
+  if (authData.authMethod === "remote") {
+    const { remoteSignerManager } = await import("./remote-signer-manager")
+    if (!remoteSignerManager.isAvailable()) {
+      throw new Error("Remote signer not available. Please reconnect.")
+    }
+    return remoteSignerManager.nip44Encrypt(selfPubkey, plaintext)
+  }
+
+  throw new Error(`Unsupported auth method: ${authData.authMethod}`)
+}
+
+/**
+ * Decrypt a NIP-44 v2 payload that was encrypted to the user's own pubkey
+ */
+export async function nip44DecryptFromSelf(payload: string, authData: any, pubkey?: string): Promise<string> {
+  console.log("[SelfEncryption] 🔓 NIP-44 decrypting from self with auth method:", authData.authMethod)
+  return nip44DecryptFrom(payload, authData, pubkey || authData.pubkey)
+}
+
+/**
+ * Decrypt a NIP-44 v2 payload another key encrypted to the user (e.g. a gift
+ * wrap from a throwaway key) using the active signer
+ */
+export async function nip44DecryptFrom(payload: string, authData: any, senderPubkey: string): Promise<string> {
+  if (authData.authMethod === "nsec") {
+    if (!authData.privateKey) {
+      throw new Error("Private key not available")
+    }
+    const conversationKey = getConversationKey(authData, senderPubkey)
+    return nip44.v2.decrypt(payload, conversationKey)
+  }
+
+  if (authData.authMethod === "extension") {
+    if (!window.nostr) {
+      throw new Error("Nostr extension not found")
+    }
+    if (!window.nostr.nip44) {
+      throw new Error("Nostr extension does not support NIP-44 decryption")
+    }
+    return window.nostr.nip44.decrypt(senderPubkey, payload)
+  }
+
+  if (authData.authMethod === "remote") {
+    const { remoteSignerManager } = await import("./remote-signer-manager")
+    if (!remoteSignerManager.isAvailable()) {
+      throw new Error("Remote signer not available. Please reconnect.")
+    }
+    return remoteSignerManager.nip44Decrypt(senderPubkey, payload)
+  }
+
+  throw new Error(`Unsupported auth method: ${authData.authMethod}`)
+}
+
+/**
+ * Check whether a base64 payload carries the NIP-44 v2 version byte
+ */
+export function looksLikeNip44Payload(payload: string): boolean {
+  if (!payload || payload.length < 132 || payload[0] === "#") {
+    return false
+  }
+  try {
+    return atob(payload.slice(0, 4)).charCodeAt(0) === 2
+  } catch {
+    return false
+  }
+}
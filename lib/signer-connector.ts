@@ -48,8 +48,11 @@ export async function connectNip46(bunkerUri: string): Promise<{
     
     const permissions = [
       'sign_event:1',     // Permission for Kind 1 public posts (publish to Nostr)
-      'sign_event:30001', // Specific permission for Kind 30001 journal entries
+      'sign_event:30078', // Journal entries and trash (NIP-78 application data)
+      'sign_event:30001', // Journal entries written before the move off NIP-51
       'sign_event:5',     // Permission for Kind 5 deletion events
+      'sign_event:13',    // Seals inside gift-wrapped journal entries (NIP-59)
+      'sign_event:10002', // Relay list with read/write markers (NIP-65)
       'get_public_key',
       'delete_event',
       'nip04_encrypt',
@@ -148,8 +151,11 @@ export function startClientInitiatedFlow(
     
     const permissions = [
       'sign_event:1',     // Permission for Kind 1 public posts (publish to Nostr)
-      'sign_event:30001', // Specific permission for Kind 30001 journal entries
+      'sign_event:30078', // Journal entries and trash (NIP-78 application data)
+      'sign_event:30001', // Journal entries written before the move off NIP-51
       'sign_event:5',     // Permission for Kind 5 deletion events
+      'sign_event:13',    // Seals inside gift-wrapped journal entries (NIP-59)
+      'sign_event:10002', // Relay list with read/write markers (NIP-65)
       'get_public_key',
       'delete_event',
       'nip04_encrypt',
@@ -16,6 +16,14 @@ declare global {
     nostr?: {
       signEvent: (event: any) => Promise<any>
       getPublicKey: () => Promise<string>
+      nip04?: {
+        encrypt: (pubkey: string, plaintext: string) => Promise<string>
+        decrypt: (pubkey: string, ciphertext: string) => Promise<string>
+      }
+      nip44?: {
+        encrypt: (pubkey: string, plaintext: string) => Promise<string>
+        decrypt: (pubkey: string, ciphertext: string) => Promise<string>
+      }
     }
   }
 }